@@ -1,13 +1,15 @@
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import { AppProvider, useApp } from './context';
-import { HomePage, ReaderPage, SettingsPage } from './pages';
+import { BookDetailsPage, BookmarksPage, DownloadsPage, HistoryPage, HomePage, IndexingPage, ReaderPage, SettingsPage, StatisticsPage } from './pages';
 import { isOnMeteredConnection } from './services/offlineService';
 import { UpdateNotification } from './components/UpdateNotification';
+import { useDownloadQueue } from './hooks';
 import './App.css';
 
 function Navigation() {
   const { online } = useApp();
+  const downloadQueue = useDownloadQueue();
   const [isMetered, setIsMetered] = useState(false);
 
   useEffect(() => {
@@ -34,6 +36,21 @@ function Navigation() {
       <div className="nav-links">
         {!online && <span className="offline-indicator">Offline</span>}
         {isMetered && <span className="metered-indicator" title="Data Saver mode enabled">💾</span>}
+        {downloadQueue.length > 0 && (
+          <Link to="/downloads" className="nav-link nav-downloads" title={`Downloads (${downloadQueue.length})`}>
+            ⬇️
+            <span className="nav-badge">{downloadQueue.length}</span>
+          </Link>
+        )}
+        <Link to="/history" className="nav-link" title="History">
+          🕘
+        </Link>
+        <Link to="/statistics" className="nav-link" title="Statistics">
+          📊
+        </Link>
+        <Link to="/bookmarks" className="nav-link" title="Bookmarks">
+          🔖
+        </Link>
         <Link to="/settings" className="nav-link">
           ⚙️
         </Link>
@@ -49,8 +66,15 @@ function AppContent() {
       <main className="app-main">
         <Routes>
           <Route path="/" element={<HomePage />} />
-          <Route path="/reader/:path" element={<ReaderPage />} />
+          <Route path="/browse/*" element={<HomePage />} />
+          <Route path="/book/:path" element={<BookDetailsPage />} />
+          <Route path="/reader/:path/:page?" element={<ReaderPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/bookmarks" element={<BookmarksPage />} />
+          <Route path="/statistics" element={<StatisticsPage />} />
+          <Route path="/downloads" element={<DownloadsPage />} />
           <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/indexing" element={<IndexingPage />} />
         </Routes>
       </main>
       <UpdateNotification />
@@ -1,28 +1,121 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useVirtualGrid } from '../hooks';
 import type { BookResponse } from '../types';
 import { BookPreview } from './BookPreview';
+import { BulkActionBar } from './BulkActionBar';
 import './BookCollection.css';
 
+// Must match the size of .book-collection .book-preview in BookCollection.css
+const ITEM_WIDTH = 166;
+const ITEM_HEIGHT = 310;
+const GAP = 16;
+
 interface BookCollectionProps {
   books: BookResponse[];
   showProgress?: boolean;
   eagerLoadCount?: number;
 }
 
+// Only the rows near the viewport are mounted, so covers are loaded for the visible books
+// and the overscan rows only, even in libraries with thousands of books.
+// Books can be selected with a long press, ctrl+click or shift+click to apply bulk actions.
 export function BookCollection({ books, showProgress = true, eagerLoadCount = 12 }: BookCollectionProps) {
+  const { containerRef, range } = useVirtualGrid({
+    itemCount: books.length,
+    itemWidth: ITEM_WIDTH,
+    itemHeight: ITEM_HEIGHT,
+    gap: GAP,
+  });
+
+  const [selectedPaths, setSelectedPaths] = useState<ReadonlySet<string>>(new Set());
+  // Last book clicked, shift+click selects the books between it and the clicked book
+  const [anchorPath, setAnchorPath] = useState<string | null>(null);
+
+  // Books that left the collection (filter, refresh) are not selected anymore
+  const selectedBooks = useMemo(
+    () => books.filter(book => selectedPaths.has(book.path)),
+    [books, selectedPaths]
+  );
+  const selectionMode = selectedBooks.length > 0;
+
+  const handleSelect = useCallback((book: BookResponse, { range: selectRange }: { range: boolean }) => {
+    const anchorIndex = anchorPath !== null ? books.findIndex(b => b.path === anchorPath) : -1;
+    const index = books.findIndex(b => b.path === book.path);
+
+    setSelectedPaths(previous => {
+      const next = new Set(previous);
+      if (selectRange && anchorIndex !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        for (let i = start; i <= end; i++) {
+          next.add(books[i].path);
+        }
+      } else if (next.has(book.path)) {
+        next.delete(book.path);
+      } else {
+        next.add(book.path);
+      }
+      return next;
+    });
+    setAnchorPath(book.path);
+  }, [books, anchorPath]);
+
+  const selectAll = useCallback(() => {
+    setSelectedPaths(new Set(books.map(book => book.path)));
+  }, [books]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedPaths(new Set());
+    setAnchorPath(null);
+  }, []);
+
+  useEffect(() => {
+    if (!selectionMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        clearSelection();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectionMode, clearSelection]);
+
   if (books.length === 0) {
     return null;
   }
 
+  const visibleBooks = books.slice(range.startIndex, range.endIndex);
+
   return (
-    <div className="book-collection">
-      {books.map((book, index) => (
-        <BookPreview 
-          key={book.path} 
-          book={book} 
-          showProgress={showProgress}
-          eager={index < eagerLoadCount}
+    <div className="book-collection" ref={containerRef} style={{ height: range.totalHeight }}>
+      <div
+        className="book-collection-window"
+        style={{
+          gridTemplateColumns: `repeat(${range.columns}, ${ITEM_WIDTH}px)`,
+          transform: `translateY(${range.offsetTop}px)`,
+        }}
+      >
+        {visibleBooks.map((book, index) => (
+          <BookPreview
+            key={book.path}
+            book={book}
+            showProgress={showProgress}
+            eager={range.startIndex + index < eagerLoadCount}
+            isSelected={selectedPaths.has(book.path)}
+            selectionMode={selectionMode}
+            onSelect={handleSelect}
+          />
+        ))}
+      </div>
+      {selectionMode && (
+        <BulkActionBar
+          selectedBooks={selectedBooks}
+          totalCount={books.length}
+          onSelectAll={selectAll}
+          onClear={clearSelection}
         />
-      ))}
+      )}
     </div>
   );
 }
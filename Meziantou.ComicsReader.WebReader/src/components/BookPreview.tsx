@@ -1,20 +1,41 @@
 import { useState, useEffect, useCallback, type MouseEvent } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useApp } from '../context';
 import { getCoverWithCache } from '../services';
+import { FAVORITES_SHELF_ID } from '../services/storage';
+import { useLongPress } from '../hooks';
+import { getBookUrl, getReaderUrl, isOnShelf } from '../utils';
 import type { BookResponse } from '../types';
+import { ShelfDialog } from './ShelfDialog';
 import './BookPreview.css';
 
 interface BookPreviewProps {
   book: BookResponse;
   showProgress?: boolean;
   eager?: boolean;
+  // Selection is enabled when onSelect is set. In selection mode, a click toggles the book instead of opening it.
+  isSelected?: boolean;
+  selectionMode?: boolean;
+  onSelect?: (book: BookResponse, options: { range: boolean }) => void;
 }
 
-export function BookPreview({ book, showProgress = true, eager = false }: BookPreviewProps) {
-  const { apiClient, cachedBooksInfo } = useApp();
+export function BookPreview({
+  book,
+  showProgress = true,
+  eager = false,
+  isSelected = false,
+  selectionMode = false,
+  onSelect,
+}: BookPreviewProps) {
+  const navigate = useNavigate();
+  const { apiClient, cachedBooksInfo, shelves, toggleShelfBook, newBooks, dismissNewBooks } = useApp();
   const [coverUrl, setCoverUrl] = useState<string | null>(null);
+  const [isShelfDialogOpen, setIsShelfDialogOpen] = useState(false);
 
+  const favorites = shelves.find(shelf => shelf.id === FAVORITES_SHELF_ID);
+  const isFavorite = favorites ? isOnShelf(favorites, book.path) : false;
+
+  const isNew = newBooks.has(book.path);
   const isCached = cachedBooksInfo.has(book.path);
   const isFullyDownloaded = cachedBooksInfo.get(book.path)?.fullyDownloaded ?? false;
 
@@ -43,7 +64,25 @@ export function BookPreview({ book, showProgress = true, eager = false }: BookPr
     ? ((book.currentPage + 1) / book.pageCount) * 100
     : 0;
 
+  const { handlers: longPressHandlers, consumeLongPress } = useLongPress(
+    useCallback(() => onSelect?.(book, { range: false }), [onSelect, book])
+  );
+
   const handleOpenBook = useCallback((event: MouseEvent<HTMLAnchorElement>) => {
+    if (onSelect) {
+      // The click that ends a long press must not open the book nor toggle the selection again
+      if (consumeLongPress()) {
+        event.preventDefault();
+        return;
+      }
+
+      if (selectionMode || event.ctrlKey || event.metaKey || event.shiftKey) {
+        event.preventDefault();
+        onSelect(book, { range: event.shiftKey });
+        return;
+      }
+    }
+
     if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.altKey || event.ctrlKey || event.shiftKey) {
       return;
     }
@@ -55,10 +94,46 @@ export function BookPreview({ book, showProgress = true, eager = false }: BookPr
     document.documentElement.requestFullscreen?.().catch(() => {
       // Ignore failures (for example when fullscreen is blocked by browser policies)
     });
-  }, []);
+  }, [onSelect, consumeLongPress, selectionMode, book]);
+
+  // The actions are inside the link, they must not open the book
+  const handleToggleFavorite = (event: MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    toggleShelfBook(FAVORITES_SHELF_ID, book.path).catch(err =>
+      console.error('Failed to update favorites:', err)
+    );
+  };
+
+  const handleOpenShelfDialog = (event: MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsShelfDialogOpen(true);
+  };
+
+  const handleDismissNew = (event: MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    dismissNewBooks([book.path]).catch(err =>
+      console.error('Failed to dismiss new book:', err)
+    );
+  };
+
+  const handleOpenDetails = (event: MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    navigate(getBookUrl(book.path));
+  };
+
+  const closeShelfDialog = useCallback(() => setIsShelfDialogOpen(false), []);
 
   return (
-    <Link to={`/reader/${encodeURIComponent(book.path)}`} className="book-preview" onClick={handleOpenBook}>
+    <Link
+      to={getReaderUrl(book.path)}
+      className={`book-preview ${isSelected ? 'selected' : ''}`}
+      onClick={handleOpenBook}
+      {...(onSelect ? longPressHandlers : {})}
+    >
       <div className="book-cover-container">
         {coverUrl ? (
           <img
@@ -80,6 +155,48 @@ export function BookPreview({ book, showProgress = true, eager = false }: BookPr
             {isFullyDownloaded ? '✓' : '◐'}
           </div>
         )}
+        {isNew && (
+          <button className="new-badge" onClick={handleDismissNew} title="Dismiss" aria-label="Dismiss new book">
+            New
+          </button>
+        )}
+        {selectionMode ? (
+          <div
+            className={`selection-indicator ${isSelected ? 'checked' : ''}`}
+            role="checkbox"
+            aria-checked={isSelected}
+            aria-label={`Select ${book.title}`}
+          >
+            {isSelected ? '✓' : ''}
+          </div>
+        ) : (
+          <div className="book-actions">
+            <button
+              className={`book-action ${isFavorite ? 'active' : ''}`}
+              onClick={handleToggleFavorite}
+              title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              {isFavorite ? '♥' : '♡'}
+            </button>
+            <button
+              className="book-action"
+              onClick={handleOpenShelfDialog}
+              title="Add to shelf"
+              aria-label="Add to shelf"
+            >
+              ⋯
+            </button>
+            <button
+              className="book-action"
+              onClick={handleOpenDetails}
+              title="Details"
+              aria-label="Details"
+            >
+              ⓘ
+            </button>
+          </div>
+        )}
       </div>
       <div className="book-info">
         {book.directory && (
@@ -94,6 +211,9 @@ export function BookPreview({ book, showProgress = true, eager = false }: BookPr
           <span className="book-progress">{book.pageCount} pages</span>
         )}
       </div>
+      {isShelfDialogOpen && (
+        <ShelfDialog bookPath={book.path} bookTitle={book.title} onClose={closeShelfDialog} />
+      )}
     </Link>
   );
 }
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { formatRelativeTime } from '../utils';
+import type { Bookmark } from '../types';
+import './BookmarksPanel.css';
+
+interface BookmarksPanelProps {
+  bookmarks: Bookmark[];
+  currentPage: number;
+  onSelect: (pageIndex: number) => void;
+  onUpdateNote: (pageIndex: number, note: string) => void;
+  onRemove: (pageIndex: number) => void;
+}
+
+export function BookmarksPanel({ bookmarks, currentPage, onSelect, onUpdateNote, onRemove }: BookmarksPanelProps) {
+  // Notes being edited, saved when the field loses focus
+  const [draftNotes, setDraftNotes] = useState<ReadonlyMap<number, string>>(() => new Map());
+
+  const saveNote = (pageIndex: number) => {
+    const note = draftNotes.get(pageIndex);
+    if (note === undefined) return;
+
+    onUpdateNote(pageIndex, note.trim());
+    setDraftNotes(previous => {
+      const next = new Map(previous);
+      next.delete(pageIndex);
+      return next;
+    });
+  };
+
+  if (bookmarks.length === 0) {
+    return (
+      <div className="bookmarks-panel">
+        <p className="bookmarks-empty">No bookmarks yet. Use the ☆ button to bookmark the current page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bookmarks-panel">
+      <ul className="bookmarks-list">
+        {bookmarks.map(bookmark => (
+          <li
+            key={bookmark.pageIndex}
+            className={`bookmark-item ${bookmark.pageIndex === currentPage ? 'current' : ''}`}
+          >
+            <button className="bookmark-page" onClick={() => onSelect(bookmark.pageIndex)}>
+              Page {bookmark.pageIndex + 1}
+            </button>
+            <input
+              type="text"
+              className="bookmark-note"
+              placeholder="Add a note"
+              value={draftNotes.get(bookmark.pageIndex) ?? bookmark.note}
+              onChange={(e) => {
+                const note = e.target.value;
+                setDraftNotes(previous => new Map(previous).set(bookmark.pageIndex, note));
+              }}
+              onBlur={() => saveNote(bookmark.pageIndex)}
+              onKeyDown={(e) => {
+                // Don't turn pages while typing
+                e.stopPropagation();
+                if (e.key === 'Enter') {
+                  e.currentTarget.blur();
+                }
+              }}
+            />
+            <span className="bookmark-date">{formatRelativeTime(bookmark.createdAt)}</span>
+            <button
+              className="bookmark-remove"
+              onClick={() => onRemove(bookmark.pageIndex)}
+              aria-label={`Remove bookmark on page ${bookmark.pageIndex + 1}`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '../context';
+import { enqueueDownloads, isOnMeteredConnection } from '../services';
+import { removeCachedBook } from '../services/storage';
+import { runBulkAction, type BulkActionResult } from '../utils';
+import type { BookResponse } from '../types';
+import './BulkActionBar.css';
+
+interface BulkActionBarProps {
+  selectedBooks: BookResponse[];
+  totalCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+interface BulkActionState {
+  label: string;
+  completed: number;
+  total: number;
+}
+
+interface BulkActionSummary {
+  label: string;
+  result: BulkActionResult<BookResponse>;
+}
+
+export function BulkActionBar({ selectedBooks, totalCount, onSelectAll, onClear }: BulkActionBarProps) {
+  const { apiClient, refreshData, updateReadingList } = useApp();
+  const [running, setRunning] = useState<BulkActionState | null>(null);
+  const [summary, setSummary] = useState<BulkActionSummary | null>(null);
+  const [queuedCount, setQueuedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop the current action when the bar is closed
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const run = async (label: string, action: (book: BookResponse, signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const books = selectedBooks;
+
+    setError(null);
+    setSummary(null);
+    setQueuedCount(null);
+    setRunning({ label, completed: 0, total: books.length });
+
+    try {
+      const result = await runBulkAction(books, book => action(book, controller.signal), {
+        signal: controller.signal,
+        onProgress: (completed, total) => setRunning({ label, completed, total }),
+      });
+      setSummary({ label, result });
+    } finally {
+      abortControllerRef.current = null;
+      setRunning(null);
+      // Update the progress and cache indicators of the catalog
+      refreshData(true).catch(err => console.error('Failed to refresh data:', err));
+    }
+  };
+
+  // Downloads go through the queue, they keep going once the bar is closed
+  const handleDownload = async () => {
+    if (!apiClient) return;
+
+    if (isOnMeteredConnection()) {
+      setError('Cannot download on metered connection');
+      return;
+    }
+
+    const books = selectedBooks;
+    setError(null);
+    setSummary(null);
+
+    try {
+      await enqueueDownloads(books);
+      setQueuedCount(books.length);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to queue downloads: ${errMsg}`);
+    }
+  };
+
+  const handleMarkAsRead = () => {
+    if (!apiClient) return;
+
+    run('Mark as read', book => apiClient.markAsRead(book.path));
+  };
+
+  const handleRemoveFromReadingList = () => {
+    if (!apiClient) return;
+
+    run('Remove from reading list', async book => {
+      const readingListResponse = await apiClient.removeFromReadingList(book.path);
+      updateReadingList(readingListResponse.items);
+    });
+  };
+
+  const handleRemoveFromCache = () => {
+    run('Remove from cache', book => removeCachedBook(book.path));
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="bulk-action-bar" role="toolbar" aria-label="Selected books">
+      <div className="bulk-action-status">
+        <span className="bulk-action-count">{selectedBooks.length} selected</span>
+        {running ? (
+          <span className="bulk-action-progress">
+            {running.label}: {running.completed} / {running.total}
+          </span>
+        ) : summary && (
+          <span className={`bulk-action-summary ${summary.result.failed.length > 0 ? 'has-failures' : ''}`}>
+            {summary.label}: {summary.result.succeeded.length} succeeded
+            {summary.result.failed.length > 0 && `, ${summary.result.failed.length} failed`}
+            {summary.result.cancelled && ' (cancelled)'}
+          </span>
+        )}
+        {!running && queuedCount !== null && (
+          <span className="bulk-action-summary">
+            {queuedCount} added to the <Link to="/downloads">downloads</Link>
+          </span>
+        )}
+      </div>
+
+      {error && <div className="bulk-action-error">{error}</div>}
+
+      {!running && summary && summary.result.failed.length > 0 && (
+        <ul className="bulk-action-failures">
+          {summary.result.failed.map(({ item, error: failure }) => (
+            <li key={item.path}>
+              <span className="bulk-action-failure-title">{item.title}</span>: {failure}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="bulk-action-buttons">
+        {running ? (
+          <button onClick={handleCancel}>Cancel</button>
+        ) : (
+          <>
+            <button onClick={handleDownload} disabled={!apiClient || selectedBooks.length === 0}>
+              Download
+            </button>
+            <button onClick={handleMarkAsRead} disabled={!apiClient || selectedBooks.length === 0}>
+              Mark as read
+            </button>
+            <button onClick={handleRemoveFromReadingList} disabled={!apiClient || selectedBooks.length === 0}>
+              Remove from reading list
+            </button>
+            <button onClick={handleRemoveFromCache} disabled={selectedBooks.length === 0}>
+              Remove from cache
+            </button>
+            {selectedBooks.length < totalCount && (
+              <button onClick={onSelectAll}>Select all</button>
+            )}
+            <button onClick={onClear}>Done</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
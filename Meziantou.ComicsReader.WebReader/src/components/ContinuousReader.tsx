@@ -0,0 +1,188 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, type ReactNode, type SyntheticEvent } from 'react';
+import { getPageWithCache, type ApiClient } from '../services';
+import './ContinuousReader.css';
+
+interface ContinuousReaderProps {
+  apiClient: ApiClient | null;
+  bookPath: string;
+  pageCount: number;
+  page: number;
+  autoCachePages: boolean;
+  onPageChange: (page: number) => void;
+  children?: ReactNode;
+}
+
+// Pages are loaded when they come within this distance of the viewport, and recycled when they leave it
+const PREFETCH_MARGIN = '150% 0px';
+const VISIBILITY_THRESHOLDS = Array.from({ length: 11 }, (_, i) => i / 10);
+// Placeholder aspect ratio (width / height) used until a page has been displayed once
+const DEFAULT_ASPECT_RATIO = 2 / 3;
+
+export function ContinuousReader({
+  apiClient,
+  bookPath,
+  pageCount,
+  page,
+  autoCachePages,
+  onPageChange,
+  children,
+}: ContinuousReaderProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageElements = useRef<Array<HTMLDivElement | null>>([]);
+  const nearPages = useRef(new Set<number>());
+  const visibleHeights = useRef(new Map<number, number>());
+  const reportedPage = useRef<number | null>(null);
+  const pageUrlsRef = useRef(new Map<number, string>());
+
+  const [pageUrls, setPageUrls] = useState<ReadonlyMap<number, string>>(() => new Map());
+  const [aspectRatios, setAspectRatios] = useState<ReadonlyMap<number, number>>(() => new Map());
+
+  const releasePage = useCallback((index: number) => {
+    const url = pageUrlsRef.current.get(index);
+    if (url) {
+      URL.revokeObjectURL(url);
+      pageUrlsRef.current.delete(index);
+      setPageUrls(new Map(pageUrlsRef.current));
+    }
+  }, []);
+
+  const loadPage = useCallback(async (index: number) => {
+    if (pageUrlsRef.current.has(index)) return;
+
+    try {
+      const url = await getPageWithCache(apiClient, bookPath, index, autoCachePages);
+
+      // The page scrolled away (or was loaded twice) while fetching
+      if (!nearPages.current.has(index) || pageUrlsRef.current.has(index)) {
+        URL.revokeObjectURL(url);
+        return;
+      }
+
+      pageUrlsRef.current.set(index, url);
+      setPageUrls(new Map(pageUrlsRef.current));
+    } catch (err) {
+      console.error(`Failed to load page ${index}:`, err);
+    }
+  }, [apiClient, bookPath, autoCachePages]);
+
+  // Scroll to the requested page when it doesn't come from scrolling (initial position, page buttons)
+  useLayoutEffect(() => {
+    const target = Math.min(page, pageCount - 1);
+    if (target === reportedPage.current) return;
+
+    reportedPage.current = target;
+    pageElements.current[target]?.scrollIntoView({ block: 'start' });
+  }, [page, pageCount]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const near = nearPages.current;
+    const heights = visibleHeights.current;
+
+    const mountObserver = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const index = Number((entry.target as HTMLElement).dataset.pageIndex);
+        if (entry.isIntersecting) {
+          near.add(index);
+          loadPage(index);
+        } else {
+          near.delete(index);
+          releasePage(index);
+        }
+      }
+    }, { root: container, rootMargin: PREFETCH_MARGIN });
+
+    // The current page is the one covering the largest part of the viewport
+    const visibilityObserver = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const index = Number((entry.target as HTMLElement).dataset.pageIndex);
+        if (entry.isIntersecting) {
+          heights.set(index, entry.intersectionRect.height);
+        } else {
+          heights.delete(index);
+        }
+      }
+
+      let mostVisiblePage: number | null = null;
+      let largestHeight = 0;
+      for (const [index, height] of heights) {
+        if (height > largestHeight || (height === largestHeight && mostVisiblePage !== null && index < mostVisiblePage)) {
+          mostVisiblePage = index;
+          largestHeight = height;
+        }
+      }
+
+      if (mostVisiblePage !== null && mostVisiblePage !== reportedPage.current) {
+        reportedPage.current = mostVisiblePage;
+        onPageChange(mostVisiblePage);
+      }
+    }, { root: container, threshold: VISIBILITY_THRESHOLDS });
+
+    for (const element of pageElements.current.slice(0, pageCount)) {
+      if (element) {
+        mountObserver.observe(element);
+        visibilityObserver.observe(element);
+      }
+    }
+
+    return () => {
+      mountObserver.disconnect();
+      visibilityObserver.disconnect();
+      near.clear();
+      heights.clear();
+    };
+  }, [pageCount, loadPage, releasePage, onPageChange]);
+
+  // Revoke the remaining blob URLs when the reader is closed
+  useEffect(() => {
+    const urls = pageUrlsRef.current;
+    return () => {
+      for (const url of urls.values()) {
+        URL.revokeObjectURL(url);
+      }
+      urls.clear();
+    };
+  }, []);
+
+  const handleImageLoad = useCallback((index: number, event: SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = event.currentTarget;
+    if (naturalWidth > 0 && naturalHeight > 0) {
+      setAspectRatios(previous => new Map(previous).set(index, naturalWidth / naturalHeight));
+    }
+  }, []);
+
+  return (
+    <div className="continuous-reader" ref={containerRef}>
+      {Array.from({ length: pageCount }, (_, index) => {
+        const url = pageUrls.get(index);
+        // Recycled pages keep their size so that the scroll position doesn't jump
+        return (
+          <div
+            key={index}
+            ref={element => {
+              pageElements.current[index] = element;
+            }}
+            data-page-index={index}
+            className="continuous-page"
+            style={{ aspectRatio: url ? undefined : aspectRatios.get(index) ?? DEFAULT_ASPECT_RATIO }}
+          >
+            {url ? (
+              <img
+                src={url}
+                alt={`Page ${index + 1}`}
+                className="continuous-page-image"
+                draggable={false}
+                onLoad={(event) => handleImageLoad(index, event)}
+              />
+            ) : (
+              <span className="continuous-page-placeholder">{index + 1}</span>
+            )}
+          </div>
+        );
+      })}
+      {children}
+    </div>
+  );
+}
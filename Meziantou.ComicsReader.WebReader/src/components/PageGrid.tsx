@@ -0,0 +1,57 @@
+import { PageThumbnail } from './PageThumbnail';
+import './PageGrid.css';
+
+interface PageGridProps {
+  bookPath: string;
+  title: string;
+  pageCount: number;
+  currentPage: number;
+  cachedPages: ReadonlySet<number>;
+  isRightToLeft: boolean;
+  onSelect: (pageIndex: number) => void;
+  onClose: () => void;
+}
+
+export function PageGrid({
+  bookPath,
+  title,
+  pageCount,
+  currentPage,
+  cachedPages,
+  isRightToLeft,
+  onSelect,
+  onClose,
+}: PageGridProps) {
+  const selectPage = (pageIndex: number) => {
+    onSelect(pageIndex);
+    onClose();
+  };
+
+  return (
+    <div className="page-grid-overlay" role="dialog" aria-modal="true" aria-label="Pages">
+      <div className="page-grid-header">
+        <div className="page-grid-title">
+          <h2>{title}</h2>
+          <span className="page-grid-status">
+            {cachedPages.size} / {pageCount} pages available offline
+          </span>
+        </div>
+        <button className="page-grid-close" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <div className="page-grid" dir={isRightToLeft ? 'rtl' : 'ltr'}>
+        {Array.from({ length: pageCount }, (_, index) => (
+          <PageThumbnail
+            key={index}
+            bookPath={bookPath}
+            pageIndex={index}
+            isCached={cachedPages.has(index)}
+            isCurrent={index === currentPage}
+            onSelect={selectPage}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
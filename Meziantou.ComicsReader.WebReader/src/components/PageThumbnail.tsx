@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef } from 'react';
+import { getPageThumbnail } from '../services';
+import './PageThumbnail.css';
+
+interface PageThumbnailProps {
+  bookPath: string;
+  pageIndex: number;
+  isCached: boolean;
+  isCurrent: boolean;
+  onSelect: (pageIndex: number) => void;
+}
+
+// Thumbnails are generated when they come close to the visible area of their scroll container
+const LOAD_MARGIN = '200px';
+
+export function PageThumbnail({ bookPath, pageIndex, isCached, isCurrent, onSelect }: PageThumbnailProps) {
+  const elementRef = useRef<HTMLButtonElement>(null);
+  const [isNear, setIsNear] = useState(false);
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element || !isCached) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsNear(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: LOAD_MARGIN });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isCached]);
+
+  useEffect(() => {
+    if (!isNear || !isCached) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    getPageThumbnail(bookPath, pageIndex)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setThumbnailUrl(url);
+      })
+      .catch(err => {
+        console.error(`Failed to create thumbnail for page ${pageIndex}:`, err);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [bookPath, pageIndex, isNear, isCached]);
+
+  // Keep the current page in view when navigating
+  useEffect(() => {
+    if (isCurrent) {
+      elementRef.current?.scrollIntoView?.({ block: 'nearest', inline: 'center' });
+    }
+  }, [isCurrent]);
+
+  return (
+    <button
+      ref={elementRef}
+      className={`page-thumbnail ${isCached ? 'cached' : 'uncached'} ${isCurrent ? 'current' : ''}`}
+      onClick={() => onSelect(pageIndex)}
+      title={isCached ? `Page ${pageIndex + 1}` : `Page ${pageIndex + 1} (not downloaded)`}
+      aria-current={isCurrent ? 'page' : undefined}
+    >
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt={`Page ${pageIndex + 1}`} draggable={false} />
+      ) : (
+        <span className="page-thumbnail-placeholder" />
+      )}
+      <span className="page-thumbnail-number">{pageIndex + 1}</span>
+    </button>
+  );
+}
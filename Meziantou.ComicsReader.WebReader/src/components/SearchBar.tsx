@@ -1,44 +1,78 @@
+import { useState } from 'react';
 import './SearchBar.css';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  // Syntax help shown under the input, clicking a hint appends it to the query
+  hints?: ReadonlyArray<{ syntax: string; description: string }>;
 }
 
-export function SearchBar({ value, onChange, placeholder = 'Search...' }: SearchBarProps) {
+export function SearchBar({ value, onChange, placeholder = 'Search...', hints }: SearchBarProps) {
+  const [showHints, setShowHints] = useState(false);
+
+  const handleHintClick = (syntax: string) => {
+    onChange(value.trim() ? `${value.trim()} ${syntax}` : syntax);
+  };
+
   return (
-    <div className="search-bar">
-      <svg
-        className="search-icon"
-        xmlns="http://www.w3.org/2000/svg"
-        width="20"
-        height="20"
-        viewBox="0 0 24 24"
-        fill="none"
-        stroke="currentColor"
-        strokeWidth="2"
-        strokeLinecap="round"
-        strokeLinejoin="round"
-      >
-        <circle cx="11" cy="11" r="8" />
-        <path d="m21 21-4.35-4.35" />
-      </svg>
-      <input
-        type="search"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        className="search-input"
-      />
-      {value && (
-        <button
-          className="search-clear"
-          onClick={() => onChange('')}
-          aria-label="Clear search"
+    <div className="search-bar-container">
+      <div className="search-bar">
+        <svg
+          className="search-icon"
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
         >
-          ×
-        </button>
+          <circle cx="11" cy="11" r="8" />
+          <path d="m21 21-4.35-4.35" />
+        </svg>
+        <input
+          type="search"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className="search-input"
+        />
+        {value && (
+          <button
+            className="search-clear"
+            onClick={() => onChange('')}
+            aria-label="Clear search"
+          >
+            ×
+          </button>
+        )}
+        {hints && (
+          <button
+            className={`search-help ${showHints ? 'active' : ''}`}
+            onClick={() => setShowHints(!showHints)}
+            aria-label="Search syntax"
+            aria-expanded={showHints}
+            title="Search syntax"
+          >
+            ?
+          </button>
+        )}
+      </div>
+      {hints && showHints && (
+        <ul className="search-hints">
+          {hints.map(hint => (
+            <li key={hint.syntax}>
+              <button className="search-hint" onClick={() => handleHintClick(hint.syntax)}>
+                <code>{hint.syntax}</code>
+                <span>{hint.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
       )}
     </div>
   );
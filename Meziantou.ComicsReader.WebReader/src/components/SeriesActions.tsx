@@ -0,0 +1,179 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '../context';
+import { useDownloadQueue } from '../hooks';
+import { cancelDownloads, enqueueDownloads, isOnMeteredConnection } from '../services';
+import { removeCachedBook } from '../services/storage';
+import { computeDownloadProgress, runBulkAction, type BulkActionResult } from '../utils';
+import type { BookResponse } from '../types';
+import './SeriesActions.css';
+
+interface SeriesActionsProps {
+  // Every book of the series, including its subdirectories
+  books: BookResponse[];
+}
+
+interface SeriesRemovalState {
+  completed: number;
+  total: number;
+}
+
+export function SeriesActions({ books }: SeriesActionsProps) {
+  const { apiClient, cachedBooksInfo, online, refreshData } = useApp();
+  const downloadQueue = useDownloadQueue();
+  const [removing, setRemoving] = useState<SeriesRemovalState | null>(null);
+  const [removalResult, setRemovalResult] = useState<BulkActionResult<BookResponse> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop the removal when leaving the series. Downloads go through the queue and keep going.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const seriesPaths = useMemo(() => new Set(books.map(book => book.path)), [books]);
+  const queuedItems = downloadQueue.filter(item => seriesPaths.has(item.path));
+  const failedCount = queuedItems.filter(item => item.status === 'failed').length;
+  const progress = computeDownloadProgress(queuedItems);
+
+  const downloadedCount = books.filter(book => cachedBooksInfo.get(book.path)?.fullyDownloaded).length;
+  const booksToDownload = books.filter(book => !cachedBooksInfo.get(book.path)?.fullyDownloaded);
+  const unreadBooksToDownload = booksToDownload.filter(book => !book.isCompleted);
+
+  const download = async (items: BookResponse[]) => {
+    if (!apiClient) return;
+
+    if (isOnMeteredConnection()) {
+      setError('Cannot download on metered connection');
+      return;
+    }
+
+    setError(null);
+    setRemovalResult(null);
+
+    try {
+      await enqueueDownloads(items);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to queue downloads: ${errMsg}`);
+    }
+  };
+
+  const handleCancelDownloads = () => {
+    cancelDownloads(queuedItems.map(item => item.path)).catch(err => {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to cancel downloads: ${errMsg}`);
+    });
+  };
+
+  const handleRemoveFromCache = async () => {
+    if (!confirm('Remove every book of this series from the cache?')) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setError(null);
+    setRemovalResult(null);
+    setRemoving({ completed: 0, total: books.length });
+
+    try {
+      // The queued books would be downloaded again
+      await cancelDownloads(queuedItems.map(item => item.path));
+
+      const result = await runBulkAction(books, book => removeCachedBook(book.path), {
+        signal: controller.signal,
+        onProgress: (completed, total) => setRemoving({ completed, total }),
+      });
+      setRemovalResult(result);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to remove from cache: ${errMsg}`);
+    } finally {
+      abortControllerRef.current = null;
+      setRemoving(null);
+      // Update the cache indicators of the catalog
+      refreshData(true).catch(err => console.error('Failed to refresh data:', err));
+    }
+  };
+
+  return (
+    <div className="series-actions">
+      <div className="series-actions-buttons">
+        {removing ? (
+          <button className="action-button" onClick={() => abortControllerRef.current?.abort()}>
+            Cancel
+          </button>
+        ) : (
+          <>
+            <button
+              className="action-button"
+              onClick={() => download(booksToDownload)}
+              disabled={!apiClient || !online || booksToDownload.length === 0}
+            >
+              Download series
+            </button>
+            <button
+              className="action-button"
+              onClick={() => download(unreadBooksToDownload)}
+              disabled={!apiClient || !online || unreadBooksToDownload.length === 0}
+            >
+              Download unread ({unreadBooksToDownload.length})
+            </button>
+            <button className="action-button" onClick={handleRemoveFromCache}>
+              Remove from cache
+            </button>
+            {queuedItems.length > 0 && (
+              <button className="action-button" onClick={handleCancelDownloads}>
+                Cancel downloads
+              </button>
+            )}
+          </>
+        )}
+        <span className="series-actions-status">
+          {downloadedCount} / {books.length} downloaded
+        </span>
+      </div>
+
+      {removing && (
+        <div className="series-actions-progress">
+          <span>Remove from cache: {removing.completed} / {removing.total} books</span>
+        </div>
+      )}
+
+      {!removing && queuedItems.length > 0 && (
+        <div className="series-actions-progress">
+          <span>
+            {queuedItems.length} {queuedItems.length === 1 ? 'book' : 'books'} in the <Link to="/downloads">downloads</Link>
+            {progress.totalPages > 0 && ` • ${Math.round((progress.downloadedPages / progress.totalPages) * 100)}%`}
+            {failedCount > 0 && ` • ${failedCount} failed`}
+          </span>
+          <div className="series-actions-progress-track">
+            <div
+              className="series-actions-progress-bar"
+              style={{ width: `${progress.totalPages > 0 ? (progress.downloadedPages / progress.totalPages) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <div className="series-actions-error">{error}</div>}
+
+      {!removing && removalResult && (
+        <div className={`series-actions-summary ${removalResult.failed.length > 0 ? 'has-failures' : ''}`}>
+          Remove from cache: {removalResult.succeeded.length} succeeded
+          {removalResult.failed.length > 0 && `, ${removalResult.failed.length} failed`}
+          {removalResult.cancelled && ' (cancelled)'}
+          {removalResult.failed.length > 0 && (
+            <ul className="series-actions-failures">
+              {removalResult.failed.map(({ item, error: failure }) => (
+                <li key={item.path}>
+                  <span className="series-actions-failure-title">{item.title}</span>: {failure}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
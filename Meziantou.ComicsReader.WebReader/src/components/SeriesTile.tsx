@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '../context';
+import { getCoverWithCache } from '../services';
+import { getBrowseUrl, type DirectoryEntry } from '../utils';
+import './SeriesTile.css';
+
+interface SeriesTileProps {
+  entry: DirectoryEntry;
+}
+
+export function SeriesTile({ entry }: SeriesTileProps) {
+  const { apiClient } = useApp();
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+  const coverBook = entry.coverBook;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCover = async () => {
+      if (!coverBook.coverImageFileName || !apiClient) return;
+
+      const url = await getCoverWithCache(apiClient, coverBook.path);
+      if (!cancelled && url) {
+        setCoverUrl(url);
+      }
+    };
+
+    loadCover();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [coverBook.path, coverBook.coverImageFileName, apiClient]);
+
+  return (
+    <Link to={getBrowseUrl(entry.path)} className="series-tile">
+      <div className="series-cover-container">
+        {coverUrl ? (
+          <img src={coverUrl} alt={entry.name} className="series-cover" loading="lazy" />
+        ) : (
+          <div className="series-cover-placeholder">
+            <span>📚</span>
+          </div>
+        )}
+        <span className="series-volume-count">{entry.volumeCount}</span>
+        {entry.progress > 0 && (
+          <div className="series-progress-bar" style={{ width: `${entry.progress * 100}%` }} />
+        )}
+      </div>
+      <div className="series-info">
+        <span className="series-name">{entry.name}</span>
+        <span className="series-counts">
+          {entry.completedCount} read · {entry.unreadCount} unread
+          {entry.inProgressCount > 0 && ` · ${entry.inProgressCount} in progress`}
+        </span>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef, type FormEvent, type KeyboardEvent, type MouseEvent } from 'react';
+import { createPortal } from 'react-dom';
+import { useApp } from '../context';
+import { FAVORITES_SHELF_ID } from '../services/storage';
+import { isOnShelf } from '../utils';
+import './ShelfDialog.css';
+
+interface ShelfDialogProps {
+  bookPath: string;
+  bookTitle: string;
+  onClose: () => void;
+}
+
+// Rendered in a portal so that it works from inside the links of BookPreview
+export function ShelfDialog({ bookPath, bookTitle, onClose }: ShelfDialogProps) {
+  const { shelves, toggleShelfBook, createShelf } = useApp();
+  const [newShelfName, setNewShelfName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  const handleToggle = async (shelfId: string) => {
+    try {
+      await toggleShelfBook(shelfId, bookPath);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to update shelf: ${errMsg}`);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = newShelfName.trim();
+    if (!name) return;
+
+    try {
+      await createShelf(name, [bookPath]);
+      setNewShelfName('');
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to create shelf: ${errMsg}`);
+    }
+  };
+
+  // Don't let clicks reach the link the dialog was opened from
+  const stopPropagation = (e: MouseEvent) => e.stopPropagation();
+
+  // Keep typing away from the shortcuts of the reader
+  const handleKeyDown = (e: KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return createPortal(
+    <div className="shelf-dialog-overlay" onClick={(e) => { stopPropagation(e); onClose(); }}>
+      <div
+        className="shelf-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Shelves"
+        tabIndex={-1}
+        ref={dialogRef}
+        onClick={stopPropagation}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="shelf-dialog-header">
+          <h2>Add to shelf</h2>
+          <span className="shelf-dialog-book">{bookTitle}</span>
+        </div>
+
+        {error && <div className="shelf-dialog-error">{error}</div>}
+
+        <ul className="shelf-dialog-list">
+          {shelves.map(shelf => (
+            <li key={shelf.id}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={isOnShelf(shelf, bookPath)}
+                  onChange={() => handleToggle(shelf.id)}
+                />
+                {shelf.id === FAVORITES_SHELF_ID ? `♥ ${shelf.name}` : shelf.name}
+                <span className="shelf-dialog-count">{shelf.bookPaths.length}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <form className="shelf-dialog-new" onSubmit={handleCreate}>
+          <input
+            type="text"
+            value={newShelfName}
+            onChange={(e) => setNewShelfName(e.target.value)}
+            placeholder="New shelf name"
+            aria-label="New shelf name"
+          />
+          <button type="submit" disabled={!newShelfName.trim()}>
+            Create
+          </button>
+        </form>
+
+        <button className="shelf-dialog-close" onClick={onClose}>
+          Done
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+}
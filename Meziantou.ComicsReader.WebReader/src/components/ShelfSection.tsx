@@ -0,0 +1,79 @@
+import { useState, type DragEvent } from 'react';
+import type { BookResponse, Shelf } from '../types';
+import { BookPreview } from './BookPreview';
+import './ShelfSection.css';
+
+interface ShelfSectionProps {
+  shelf: Shelf;
+  books: BookResponse[];
+  onMove: (bookPath: string, targetBookPath: string) => void;
+  onRename?: () => void;
+  onDelete?: () => void;
+}
+
+export function ShelfSection({ shelf, books, onMove, onRename, onDelete }: ShelfSectionProps) {
+  const [draggedPath, setDraggedPath] = useState<string | null>(null);
+  const [targetPath, setTargetPath] = useState<string | null>(null);
+
+  const handleDragStart = (e: DragEvent, bookPath: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', bookPath);
+    setDraggedPath(bookPath);
+  };
+
+  const handleDragOver = (e: DragEvent, bookPath: string) => {
+    // Only accept books dragged from this shelf
+    if (draggedPath === null) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setTargetPath(bookPath);
+  };
+
+  const handleDrop = (e: DragEvent, bookPath: string) => {
+    e.preventDefault();
+    if (draggedPath !== null && draggedPath !== bookPath) {
+      onMove(draggedPath, bookPath);
+    }
+    setDraggedPath(null);
+    setTargetPath(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedPath(null);
+    setTargetPath(null);
+  };
+
+  return (
+    <section className="section shelf-section">
+      <div className="shelf-header">
+        <h2>{shelf.name}</h2>
+        {(onRename || onDelete) && (
+          <div className="shelf-header-actions">
+            {onRename && <button onClick={onRename}>Rename</button>}
+            {onDelete && <button onClick={onDelete}>Delete</button>}
+          </div>
+        )}
+      </div>
+      {books.length === 0 ? (
+        <p className="shelf-empty">No books yet. Use the ⋯ button on a cover to add books to this shelf.</p>
+      ) : (
+        <div className="shelf-books">
+          {books.map(book => (
+            <div
+              key={book.path}
+              className={`shelf-item ${draggedPath === book.path ? 'dragging' : ''} ${targetPath === book.path && draggedPath !== book.path ? 'drop-target' : ''}`}
+              draggable
+              onDragStart={(e) => handleDragStart(e, book.path)}
+              onDragOver={(e) => handleDragOver(e, book.path)}
+              onDrop={(e) => handleDrop(e, book.path)}
+              onDragEnd={handleDragEnd}
+            >
+              <BookPreview book={book} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
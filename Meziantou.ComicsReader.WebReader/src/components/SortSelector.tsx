@@ -0,0 +1,36 @@
+import { CATALOG_SORT_FIELDS } from '../utils';
+import type { CatalogSortField, SortDirection } from '../types';
+import './SortSelector.css';
+
+interface SortSelectorProps {
+  field: CatalogSortField;
+  direction: SortDirection;
+  onChange: (field: CatalogSortField, direction: SortDirection) => void;
+}
+
+export function SortSelector({ field, direction, onChange }: SortSelectorProps) {
+  return (
+    <div className="sort-selector">
+      <label htmlFor="catalog-sort">Sort by</label>
+      <select
+        id="catalog-sort"
+        value={field}
+        onChange={(e) => onChange(e.target.value as CatalogSortField, direction)}
+      >
+        {CATALOG_SORT_FIELDS.map(option => (
+          <option key={option.field} value={option.field}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className="sort-direction"
+        onClick={() => onChange(field, direction === 'asc' ? 'desc' : 'asc')}
+        title={direction === 'asc' ? 'Ascending' : 'Descending'}
+        aria-label={direction === 'asc' ? 'Sort descending' : 'Sort ascending'}
+      >
+        {direction === 'asc' ? '↑' : '↓'}
+      </button>
+    </div>
+  );
+}
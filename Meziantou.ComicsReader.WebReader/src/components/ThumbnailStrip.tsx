@@ -0,0 +1,69 @@
+import { useState, type ChangeEvent } from 'react';
+import { PageThumbnail } from './PageThumbnail';
+import './ThumbnailStrip.css';
+
+interface ThumbnailStripProps {
+  bookPath: string;
+  pageCount: number;
+  currentPage: number;
+  cachedPages: ReadonlySet<number>;
+  isRightToLeft: boolean;
+  onSelect: (pageIndex: number) => void;
+}
+
+export function ThumbnailStrip({
+  bookPath,
+  pageCount,
+  currentPage,
+  cachedPages,
+  isRightToLeft,
+  onSelect,
+}: ThumbnailStripProps) {
+  // Page under the scrubber while it is being dragged, committed on release
+  const [scrubPage, setScrubPage] = useState<number | null>(null);
+  const highlightedPage = scrubPage ?? currentPage;
+
+  const handleScrub = (event: ChangeEvent<HTMLInputElement>) => {
+    setScrubPage(Number(event.target.value));
+  };
+
+  const commitScrub = () => {
+    if (scrubPage !== null) {
+      onSelect(scrubPage);
+      setScrubPage(null);
+    }
+  };
+
+  return (
+    <div className="thumbnail-strip" dir={isRightToLeft ? 'rtl' : 'ltr'}>
+      <div className="thumbnail-strip-pages">
+        {Array.from({ length: pageCount }, (_, index) => (
+          <PageThumbnail
+            key={index}
+            bookPath={bookPath}
+            pageIndex={index}
+            isCached={cachedPages.has(index)}
+            isCurrent={index === highlightedPage}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+      <div className="thumbnail-strip-scrubber">
+        <input
+          type="range"
+          min={0}
+          max={pageCount - 1}
+          value={Math.min(highlightedPage, pageCount - 1)}
+          onChange={handleScrub}
+          onPointerUp={commitScrub}
+          onKeyUp={commitScrub}
+          onBlur={commitScrub}
+          aria-label="Go to page"
+        />
+        <span className="thumbnail-strip-label">
+          {Math.min(highlightedPage, pageCount - 1) + 1} / {pageCount}
+        </span>
+      </div>
+    </div>
+  );
+}
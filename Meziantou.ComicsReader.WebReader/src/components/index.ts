@@ -1,5 +1,16 @@
 export { BookPreview } from './BookPreview';
 export { BookCollection } from './BookCollection';
+export { BulkActionBar } from './BulkActionBar';
 export { PullToRefreshIndicator } from './PullToRefresh';
 export { FilterChips } from './FilterChips';
 export { SearchBar } from './SearchBar';
+export { ContinuousReader } from './ContinuousReader';
+export { PageThumbnail } from './PageThumbnail';
+export { ThumbnailStrip } from './ThumbnailStrip';
+export { PageGrid } from './PageGrid';
+export { BookmarksPanel } from './BookmarksPanel';
+export { SeriesTile } from './SeriesTile';
+export { SortSelector } from './SortSelector';
+export { ShelfDialog } from './ShelfDialog';
+export { ShelfSection } from './ShelfSection';
+export { SeriesActions } from './SeriesActions';
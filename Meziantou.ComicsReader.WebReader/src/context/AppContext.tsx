@@ -1,10 +1,18 @@
-import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
 import { ApiClient, getApiClient } from '../services/apiClient';
 import {
   getSettings,
   saveSettings,
   getCachedBooks,
   getLocalReadingList,
+  getBooksFirstSeen,
+  recordBooksFirstSeen,
+  getNewBooks,
+  markBooksAsSeen,
+  getShelves,
+  saveShelf,
+  deleteShelf,
+  FAVORITES_SHELF_ID,
 } from '../services/storage';
 import {
   syncPendingUpdates,
@@ -12,11 +20,29 @@ import {
   isOnline,
   getAllCachedBooksInfo,
   preloadCoverCache,
+  resetReadingProgress,
+  markBookAsUnread,
+} from '../services/offlineService';
+import {
   autoDownloadAllBooks,
   cancelAutoDownload,
-} from '../services/offlineService';
-import { computeNextBooksToRead } from '../utils';
-import type { AppSettings, BookResponse, ReadingListItemResponse } from '../types';
+  startDownloadQueue,
+  subscribeToCompletedDownloads,
+} from '../services/downloadQueue';
+import { runSmartOffline, stopSmartOffline } from '../services/smartOffline';
+import {
+  applyProgressToBook,
+  applyProgressToReadingList,
+  computeNextBooksToRead,
+  createSearchIndex,
+  generateId,
+  getCancelledDownloadSources,
+  moveBookOnShelf,
+  toggleBookOnShelf,
+  type ReadingProgress,
+  type SearchIndex,
+} from '../utils';
+import type { AppSettings, BookResponse, IndexingStatusResponse, ReadingListItemResponse, Shelf } from '../types';
 
 // Deep equality check for arrays of objects
 function areArraysEqual<T>(a: T[], b: T[]): boolean {
@@ -65,16 +91,35 @@ interface AppContextValue {
   books: BookResponse[];
   readingList: ReadingListItemResponse[];
   nextToRead: BookResponse[];
+  // Date each book first appeared in the catalog on this device, by path
+  booksFirstSeen: Map<string, string>;
+  // Books added since the first visit, until they are opened or dismissed
+  newBooks: ReadonlySet<string>;
+  // Search index of the catalog, updated with the books
+  searchIndex: SearchIndex;
   isLoading: boolean;
   error: string | null;
 
+  // Shelves, favorites first
+  shelves: Shelf[];
+  toggleShelfBook: (shelfId: string, bookPath: string) => Promise<void>;
+  moveShelfBook: (shelfId: string, fromIndex: number, toIndex: number) => Promise<void>;
+  createShelf: (name: string, bookPaths?: string[]) => Promise<Shelf>;
+  renameShelf: (shelfId: string, name: string) => Promise<void>;
+  removeShelf: (shelfId: string) => Promise<void>;
+
+  dismissNewBooks: (bookPaths: string[]) => Promise<void>;
+
   // Cache info
   cachedBooksInfo: Map<string, { fullyDownloaded: boolean }>;
 
   // Actions
   refreshData: (isBackgroundRefresh?: boolean) => Promise<void>;
-  triggerReindex: () => Promise<void>;
+  triggerReindex: (onStatus?: (status: IndexingStatusResponse) => void) => Promise<void>;
   updateReadingList: (readingList: ReadingListItemResponse[]) => void;
+  // Work offline, the change is sent to the server when back online
+  resetProgress: (bookPath: string) => Promise<void>;
+  markAsUnread: (bookPath: string) => Promise<void>;
 
   // Online status
   online: boolean;
@@ -106,16 +151,32 @@ export function AppProvider({ children }: AppProviderProps) {
     token: '',
     autoDownloadNewBooks: false,
     largeFullscreenProgressBar: false,
+    pageLayout: 'single',
+    readingDirection: 'ltr',
+    catalogSortField: 'path',
+    catalogSortDirection: 'asc',
+    storageBudgetMB: 0,
+    smartOffline: false,
+    smartOfflinePageCount: 20,
+    smartOfflineBookCount: 3,
   });
   const [apiClient, setApiClient] = useState<ApiClient | null>(null);
   const [books, setBooks] = useState<BookResponse[]>([]);
   const [readingList, setReadingList] = useState<ReadingListItemResponse[]>([]);
-  const [nextToRead, setNextToRead] = useState<BookResponse[]>([]);
+  const [booksFirstSeen, setBooksFirstSeen] = useState<Map<string, string>>(new Map());
+  const [newBooks, setNewBooks] = useState<ReadonlySet<string>>(new Set());
+  const [searchIndex, setSearchIndex] = useState<SearchIndex>(() => createSearchIndex([]));
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  // Latest shelves, including the changes not rendered yet
+  const shelvesRef = useRef<Shelf[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [online, setOnline] = useState(isOnline());
   const [cachedBooksInfo, setCachedBooksInfo] = useState<Map<string, { fullyDownloaded: boolean }>>(new Map());
 
+  // Compute next books to read on the client, so that they follow every change of the progress
+  const nextToRead = useMemo(() => computeNextBooksToRead(books, readingList), [books, readingList]);
+
   // Use refs to track previous data and avoid unnecessary re-renders during background refreshes
   const previousBooksRef = useRef<BookResponse[]>([]);
   const previousReadingListRef = useRef<ReadingListItemResponse[]>([]);
@@ -131,6 +192,8 @@ export function AppProvider({ children }: AppProviderProps) {
     try {
       const cachedBooksData = await getCachedBooks();
       const localReadingListMap = await getLocalReadingList();
+      const firstSeen = await getBooksFirstSeen();
+      const newBookPaths = await getNewBooks();
 
       if (cachedBooksData.length === 0) {
         return false;
@@ -162,11 +225,10 @@ export function AppProvider({ children }: AppProviderProps) {
       });
 
       setBooks(booksWithProgress);
+      setSearchIndex(previous => createSearchIndex(booksWithProgress, previous));
       setReadingList(readingListItems);
-
-      // Compute next books to read on the client
-      const nextBooks = computeNextBooksToRead(booksWithProgress, readingListItems);
-      setNextToRead(nextBooks);
+      setBooksFirstSeen(firstSeen);
+      setNewBooks(newBookPaths);
 
       // Preload cover cache in background
       preloadCoverCache(booksWithProgress.map(b => b.path)).catch(err => 
@@ -225,12 +287,14 @@ export function AppProvider({ children }: AppProviderProps) {
         previousBooksRef.current = booksWithProgress;
         previousReadingListRef.current = readingListResponse.items;
 
+        const firstSeen = await recordBooksFirstSeen(booksResponse.books.map(b => b.path));
+        const newBookPaths = await getNewBooks();
+
         setBooks(booksWithProgress);
+        setSearchIndex(previous => createSearchIndex(booksWithProgress, previous));
         setReadingList(readingListResponse.items);
-
-        // Compute next books to read on the client
-        const nextBooks = computeNextBooksToRead(booksWithProgress, readingListResponse.items);
-        setNextToRead(nextBooks);
+        setBooksFirstSeen(firstSeen);
+        setNewBooks(newBookPaths);
       }
 
       // Preload cover cache and run cleanup in background to not delay rendering
@@ -240,10 +304,10 @@ export function AppProvider({ children }: AppProviderProps) {
         updateCachedBooksInfo(),
       ]).catch(err => console.error('Background tasks failed:', err));
 
-      // Auto-download all books if enabled (runs in background)
+      // Queue the books that are not downloaded yet if enabled (downloaded in background)
       const currentSettings = await getSettings();
       if (currentSettings.autoDownloadNewBooks) {
-        autoDownloadAllBooks(client, booksResponse.books).catch(err => 
+        autoDownloadAllBooks(booksResponse.books).catch(err => 
           console.error('Auto-download failed:', err)
         );
       }
@@ -290,41 +354,101 @@ export function AppProvider({ children }: AppProviderProps) {
     await saveSettings(newSettings);
     setSettings(newSettings);
 
-    // Create new API client with updated settings
-    const client = getApiClient(newSettings.serverUrl, newSettings.token || null);
-    setApiClient(client);
+    // Create a new API client only when the server changed, every request depending on the client is made again
+    if (newSettings.serverUrl !== previousSettings.serverUrl || newSettings.token !== previousSettings.token) {
+      const client = getApiClient(newSettings.serverUrl, newSettings.token || null);
+      setApiClient(client);
+    }
+
+    // If automatic downloads were just disabled, remove the books they queued
+    const cancelledSources = getCancelledDownloadSources(previousSettings, newSettings);
+    if (cancelledSources.length > 0) {
+      cancelAutoDownload(cancelledSources).catch(err => 
+        console.error('Failed to cancel auto-download:', err)
+      );
+    }
 
     // If auto-download was just enabled, trigger download of all books
     if (!previousSettings.autoDownloadNewBooks && newSettings.autoDownloadNewBooks && books.length > 0) {
-      autoDownloadAllBooks(client, books).catch(err => 
+      autoDownloadAllBooks(books).catch(err => 
         console.error('Failed to start auto-download:', err)
       );
     }
-    // If auto-download was just disabled, cancel ongoing download
-    else if (previousSettings.autoDownloadNewBooks && !newSettings.autoDownloadNewBooks) {
-      cancelAutoDownload();
-    }
   }, [settings, books]);
 
-  // Trigger reindex
-  const triggerReindex = useCallback(async () => {
+  // Trigger reindex, reporting the status after each poll
+  const triggerReindex = useCallback(async (onStatus?: (status: IndexingStatusResponse) => void) => {
     if (!apiClient) return;
 
     await apiClient.triggerReindex();
 
-    while ((await apiClient.getIndexingStatus()).isInProgress) {
+    while (true) {
+      const status = await apiClient.getIndexingStatus();
+      onStatus?.(status);
+      if (!status.isInProgress) break;
+
       await delay(INDEXING_POLL_INTERVAL_MS);
     }
 
     await fetchData(apiClient, false);
   }, [apiClient, fetchData]);
 
+  // Shelves are local to the device, changes are saved before updating the state.
+  // Updates start from the latest shelves, not the rendered ones, so quick successive edits are all kept.
+  const updateShelf = useCallback(async (shelfId: string, update: (shelf: Shelf) => Shelf) => {
+    const shelf = shelvesRef.current.find(s => s.id === shelfId);
+    if (!shelf) return;
+
+    const updated = update(shelf);
+    if (updated === shelf) return;
+
+    shelvesRef.current = shelvesRef.current.map(s => s.id === shelfId ? updated : s);
+    try {
+      await saveShelf(updated);
+    } catch (err) {
+      // Undo the change, unless the shelf was edited again meanwhile
+      shelvesRef.current = shelvesRef.current.map(s => s === updated ? shelf : s);
+      throw err;
+    }
+    setShelves(shelvesRef.current);
+  }, []);
+
+  const toggleShelfBook = useCallback(async (shelfId: string, bookPath: string) => {
+    await updateShelf(shelfId, shelf => toggleBookOnShelf(shelf, bookPath));
+  }, [updateShelf]);
+
+  const moveShelfBook = useCallback(async (shelfId: string, fromIndex: number, toIndex: number) => {
+    await updateShelf(shelfId, shelf => moveBookOnShelf(shelf, fromIndex, toIndex));
+  }, [updateShelf]);
+
+  const renameShelf = useCallback(async (shelfId: string, name: string) => {
+    await updateShelf(shelfId, shelf => ({ ...shelf, name }));
+  }, [updateShelf]);
+
+  const createShelf = useCallback(async (name: string, bookPaths: string[] = []) => {
+    const shelf: Shelf = { id: generateId(), name, bookPaths, createdAt: new Date().toISOString() };
+    await saveShelf(shelf);
+    shelvesRef.current = [...shelvesRef.current, shelf];
+    setShelves(shelvesRef.current);
+    return shelf;
+  }, []);
+
+  const removeShelf = useCallback(async (shelfId: string) => {
+    if (shelfId === FAVORITES_SHELF_ID) return;
+
+    await deleteShelf(shelfId);
+    shelvesRef.current = shelvesRef.current.filter(s => s.id !== shelfId);
+    setShelves(shelvesRef.current);
+  }, []);
+
   // Initialize
   useEffect(() => {
     const init = async () => {
       try {
         const loadedSettings = await getSettings();
         setSettings(loadedSettings);
+        shelvesRef.current = await getShelves();
+        setShelves(shelvesRef.current);
 
         const client = getApiClient(loadedSettings.serverUrl, loadedSettings.token || null);
         setApiClient(client);
@@ -361,6 +485,43 @@ export function AppProvider({ children }: AppProviderProps) {
     return () => clearInterval(interval);
   }, [apiClient, refreshData]);
 
+  // Download the queued books with the current client, the queue waits while offline
+  useEffect(() => {
+    startDownloadQueue(apiClient);
+  }, [apiClient, online]);
+
+  // Keep the next pages and the next books to read offline, following every change of the progress.
+  // Each run stops the previous one. The automatic download of the catalog already keeps everything.
+  useEffect(() => {
+    if (!settings.smartOffline || settings.autoDownloadNewBooks) {
+      stopSmartOffline();
+      return;
+    }
+    if (books.length === 0) return;
+
+    const options = { pageCount: settings.smartOfflinePageCount, bookCount: settings.smartOfflineBookCount };
+    runSmartOffline(apiClient, books, nextToRead, options)
+      .then(() => updateCachedBooksInfo())
+      .catch(err => console.error('Smart offline failed:', err));
+  }, [
+    apiClient,
+    books,
+    nextToRead,
+    online,
+    settings.smartOffline,
+    settings.autoDownloadNewBooks,
+    settings.smartOfflinePageCount,
+    settings.smartOfflineBookCount,
+    updateCachedBooksInfo,
+  ]);
+
+  // Update the cache indicators when a queued book is downloaded
+  useEffect(() => {
+    return subscribeToCompletedDownloads(() => {
+      updateCachedBooksInfo().catch(err => console.error('Failed to update cached books info:', err));
+    });
+  }, [updateCachedBooksInfo]);
+
   // Online/offline listener
   useEffect(() => {
     const handleOnline = async () => {
@@ -390,6 +551,43 @@ export function AppProvider({ children }: AppProviderProps) {
     };
   }, [apiClient, refreshData, loadCachedData]);
 
+  const dismissNewBooks = useCallback(async (bookPaths: string[]) => {
+    await markBooksAsSeen(bookPaths);
+    setNewBooks(previous => {
+      if (!bookPaths.some(path => previous.has(path))) return previous;
+
+      const next = new Set(previous);
+      for (const path of bookPaths) {
+        next.delete(path);
+      }
+      return next;
+    });
+  }, []);
+
+  // Update the progress of a book in the state, without waiting for the next refresh
+  const applyProgress = useCallback((bookPath: string, progress: ReadingProgress | null) => {
+    const book = books.find(b => b.path === bookPath);
+    if (!book) return;
+
+    setBooks(previous => previous.map(b => b.path === bookPath ? applyProgressToBook(b, progress) : b));
+    setReadingList(previous => applyProgressToReadingList(previous, book, progress));
+  }, [books]);
+
+  const resetProgress = useCallback(async (bookPath: string) => {
+    await resetReadingProgress(apiClient, bookPath);
+    applyProgress(bookPath, null);
+  }, [apiClient, applyProgress]);
+
+  const markAsUnread = useCallback(async (bookPath: string) => {
+    const book = books.find(b => b.path === bookPath);
+    if (!book) return;
+
+    // Completed books keep their position, -1 is the position of the books marked as read
+    const pageIndex = Math.min(Math.max(book.currentPage ?? 0, 0), book.pageCount - 1);
+    await markBookAsUnread(apiClient, bookPath, pageIndex);
+    applyProgress(bookPath, { pageIndex, completed: false, lastRead: new Date().toISOString() });
+  }, [apiClient, books, applyProgress]);
+
   const updateReadingList = useCallback((newReadingList: ReadingListItemResponse[]) => {
     setReadingList(newReadingList);
   }, []);
@@ -401,12 +599,24 @@ export function AppProvider({ children }: AppProviderProps) {
     books,
     readingList,
     nextToRead,
+    booksFirstSeen,
+    newBooks,
+    searchIndex,
     isLoading,
     error,
+    shelves,
+    toggleShelfBook,
+    moveShelfBook,
+    createShelf,
+    renameShelf,
+    removeShelf,
+    dismissNewBooks,
     cachedBooksInfo,
     refreshData,
     triggerReindex,
     updateReadingList,
+    resetProgress,
+    markAsUnread,
     online,
   };
 
@@ -1,3 +1,10 @@
 export { useSwipe, useSwipeElement } from './useSwipe';
 export { usePinchZoom } from './usePinchZoom';
 export { usePullToRefresh } from './usePullToRefresh';
+export { useReaderPreferences } from './useReaderPreferences';
+export { useBookmarks } from './useBookmarks';
+export { usePageTurnRecorder } from './usePageTurnRecorder';
+export { useVirtualGrid } from './useVirtualGrid';
+export { useScrollRestoration } from './useScrollRestoration';
+export { useLongPress } from './useLongPress';
+export { useDownloadQueue } from './useDownloadQueue';
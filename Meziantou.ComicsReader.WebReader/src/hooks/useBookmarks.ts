@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getBookmarks, saveBookmark, removeBookmark } from '../services/storage';
+import type { Bookmark } from '../types';
+
+interface LoadedBookmarks {
+  bookPath: string;
+  bookmarks: Bookmark[];
+}
+
+const EMPTY_BOOKMARKS: Bookmark[] = [];
+
+/**
+ * Load the bookmarks of a book, sorted by page.
+ */
+export function useBookmarks(bookPath: string | undefined) {
+  const [loaded, setLoaded] = useState<LoadedBookmarks | null>(null);
+  // Bumped after saving to reload the bookmarks
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!bookPath) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      const bookmarks = await getBookmarks(bookPath);
+      if (!cancelled) {
+        setLoaded({ bookPath, bookmarks });
+      }
+    };
+
+    load().catch(err => console.error('Failed to load bookmarks:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookPath, version]);
+
+  // Ignore bookmarks loaded for a previous book
+  const bookmarks = loaded !== null && loaded.bookPath === bookPath ? loaded.bookmarks : EMPTY_BOOKMARKS;
+
+  const toggleBookmark = useCallback(async (pageIndex: number) => {
+    if (!bookPath) return;
+
+    if (bookmarks.some(b => b.pageIndex === pageIndex)) {
+      await removeBookmark(bookPath, pageIndex);
+    } else {
+      await saveBookmark({ bookPath, pageIndex, note: '', createdAt: new Date().toISOString() });
+    }
+    setVersion(v => v + 1);
+  }, [bookPath, bookmarks]);
+
+  const updateBookmarkNote = useCallback(async (pageIndex: number, note: string) => {
+    const bookmark = bookmarks.find(b => b.pageIndex === pageIndex);
+    if (!bookmark || bookmark.note === note) return;
+
+    await saveBookmark({ ...bookmark, note });
+    setVersion(v => v + 1);
+  }, [bookmarks]);
+
+  const deleteBookmark = useCallback(async (pageIndex: number) => {
+    if (!bookPath) return;
+
+    await removeBookmark(bookPath, pageIndex);
+    setVersion(v => v + 1);
+  }, [bookPath]);
+
+  return {
+    bookmarks,
+    toggleBookmark,
+    updateBookmarkNote,
+    deleteBookmark,
+  };
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getDownloadQueueSnapshot, subscribeToDownloadQueue } from '../services/downloadQueue';
+import type { DownloadQueueItem } from '../types';
+
+/**
+ * Books of the download queue, in download order. Updated on each page downloaded.
+ */
+export function useDownloadQueue(): DownloadQueueItem[] {
+  return useSyncExternalStore(subscribeToDownloadQueue, getDownloadQueueSnapshot);
+}
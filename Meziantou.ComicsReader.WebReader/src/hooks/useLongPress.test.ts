@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLongPress } from '../hooks/useLongPress';
+
+function pointer(pointerType: string, clientX = 0, clientY = 0) {
+  return { pointerType, clientX, clientY } as unknown as React.PointerEvent;
+}
+
+describe('useLongPress', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should trigger after the delay when the finger stays down', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress(onLongPress, 500));
+
+    act(() => {
+      result.current.handlers.onPointerDown(pointer('touch'));
+      vi.advanceTimersByTime(500);
+    });
+
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+    expect(result.current.consumeLongPress()).toBe(true);
+    expect(result.current.consumeLongPress()).toBe(false);
+  });
+
+  it('should not trigger when the finger is released or moves', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress(onLongPress, 500));
+
+    act(() => {
+      result.current.handlers.onPointerDown(pointer('touch'));
+      vi.advanceTimersByTime(200);
+      result.current.handlers.onPointerUp();
+      result.current.handlers.onPointerDown(pointer('touch'));
+      result.current.handlers.onPointerMove(pointer('touch', 0, 30));
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(onLongPress).not.toHaveBeenCalled();
+    expect(result.current.consumeLongPress()).toBe(false);
+  });
+
+  it('should ignore the mouse', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress(onLongPress, 500));
+
+    act(() => {
+      result.current.handlers.onPointerDown(pointer('mouse'));
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(onLongPress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, type PointerEvent, type MouseEvent } from 'react';
+
+// Moving the finger further than this is a scroll, not a long press
+const MOVE_TOLERANCE_PX = 10;
+
+/**
+ * Detect long presses on touch screens. The click that follows a long press should be ignored,
+ * consumeLongPress tells whether the current click ends a long press.
+ */
+export function useLongPress(onLongPress: () => void, delay: number = 500) {
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const longPressedRef = useRef(false);
+
+  const cancel = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    startRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const onPointerDown = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+
+    cancel();
+    longPressedRef.current = false;
+    startRef.current = { x: e.clientX, y: e.clientY };
+    timeoutRef.current = setTimeout(() => {
+      timeoutRef.current = null;
+      longPressedRef.current = true;
+      onLongPress();
+    }, delay);
+  }, [cancel, onLongPress, delay]);
+
+  const onPointerMove = useCallback((e: PointerEvent) => {
+    const start = startRef.current;
+    if (start && Math.hypot(e.clientX - start.x, e.clientY - start.y) > MOVE_TOLERANCE_PX) {
+      cancel();
+    }
+  }, [cancel]);
+
+  // Mobile browsers open the context menu of links on long press
+  const onContextMenu = useCallback((e: MouseEvent) => {
+    if (startRef.current || longPressedRef.current) {
+      e.preventDefault();
+    }
+  }, []);
+
+  const consumeLongPress = useCallback(() => {
+    const longPressed = longPressedRef.current;
+    longPressedRef.current = false;
+    return longPressed;
+  }, []);
+
+  return {
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: cancel,
+      onPointerCancel: cancel,
+      onContextMenu,
+    },
+    consumeLongPress,
+  };
+}
@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import { addPageTurn } from '../services/storage';
+
+// Pages shown for a shorter time were skipped, not read
+const MIN_PAGE_VIEW_MS = 1000;
+// Longer views are most likely the reader being left open, don't let them skew the statistics
+const MAX_PAGE_VIEW_MS = 5 * 60 * 1000;
+
+/**
+ * Record the time spent on the displayed pages when they are left, for the reading statistics.
+ * Time is not counted while the document is hidden. The time spent on a spread is shared by its pages.
+ */
+export function usePageTurnRecorder(bookPath: string | undefined, visiblePages: number[]) {
+  useEffect(() => {
+    if (!bookPath || visiblePages.length === 0) return;
+
+    let startedAt: number | null = document.hidden ? null : Date.now();
+    let elapsed = 0;
+
+    const pause = () => {
+      if (startedAt !== null) {
+        elapsed += Date.now() - startedAt;
+        startedAt = null;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pause();
+      } else if (startedAt === null) {
+        startedAt = Date.now();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      pause();
+
+      if (elapsed < MIN_PAGE_VIEW_MS) return;
+
+      const durationMs = Math.min(elapsed, MAX_PAGE_VIEW_MS) / visiblePages.length;
+      const timestamp = new Date().toISOString();
+      for (const pageIndex of visiblePages) {
+        addPageTurn({ bookPath, pageIndex, timestamp, durationMs }).catch(err =>
+          console.error('Failed to record page turn:', err)
+        );
+      }
+    };
+  }, [bookPath, visiblePages]);
+}
@@ -7,6 +7,9 @@ interface PinchZoomState {
   translateY: number;
 }
 
+// Zoom factor applied per pixel of mouse wheel movement (ctrl/cmd + wheel, trackpad pinch)
+const WHEEL_ZOOM_SPEED = 0.002;
+
 interface UsePinchZoomOptions {
   minScale?: number;
   maxScale?: number;
@@ -41,6 +44,51 @@ export function usePinchZoom(options: UsePinchZoomOptions = {}) {
     setState({ scale: 1, translateX: 0, translateY: 0 });
   }, []);
 
+  // Zoom around the center of the current view
+  const setZoom = useCallback((scale: number) => {
+    setState(current => {
+      const nextScale = clamp(scale, minScale, maxScale);
+      if (nextScale <= 1) {
+        return { scale: 1, translateX: 0, translateY: 0 };
+      }
+      return { ...current, scale: nextScale };
+    });
+  }, [minScale, maxScale]);
+
+  const zoomBy = useCallback((factor: number) => {
+    setState(current => {
+      const nextScale = clamp(current.scale * factor, minScale, maxScale);
+      if (nextScale <= 1) {
+        return { scale: 1, translateX: 0, translateY: 0 };
+      }
+      return { ...current, scale: nextScale };
+    });
+  }, [minScale, maxScale]);
+
+  const handleWheel = useCallback((e: WheelEvent) => {
+    // Plain wheel scrolls the page, only ctrl/cmd + wheel zooms
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+
+    const rect = element?.getBoundingClientRect();
+    const offsetX = rect ? e.clientX - rect.left - rect.width / 2 : 0;
+    const offsetY = rect ? e.clientY - rect.top - rect.height / 2 : 0;
+
+    setState(current => {
+      const scale = clamp(current.scale * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), minScale, maxScale);
+      if (scale <= 1) {
+        return { scale: 1, translateX: 0, translateY: 0 };
+      }
+
+      // Keep the point under the cursor in place
+      return {
+        scale,
+        translateX: current.translateX + offsetX / scale - offsetX / current.scale,
+        translateY: current.translateY + offsetY / scale - offsetY / current.scale,
+      };
+    });
+  }, [element, minScale, maxScale]);
+
   const handleTouchStart = useCallback((e: TouchEvent) => {
     if (e.touches.length === 2) {
       isPinching.current = true;
@@ -162,13 +210,15 @@ export function usePinchZoom(options: UsePinchZoomOptions = {}) {
     element.addEventListener('touchstart', handleTouchStart, { passive: true });
     element.addEventListener('touchmove', handleTouchMove, { passive: true });
     element.addEventListener('touchend', handleTouchEnd, { passive: true });
+    element.addEventListener('wheel', handleWheel, { passive: false });
 
     return () => {
       element.removeEventListener('touchstart', handleTouchStart);
       element.removeEventListener('touchmove', handleTouchMove);
       element.removeEventListener('touchend', handleTouchEnd);
+      element.removeEventListener('wheel', handleWheel);
     };
-  }, [element, handleTouchStart, handleTouchMove, handleTouchEnd]);
+  }, [element, handleTouchStart, handleTouchMove, handleTouchEnd, handleWheel]);
 
   return {
     containerRef,
@@ -176,6 +226,8 @@ export function usePinchZoom(options: UsePinchZoomOptions = {}) {
     translateX: state.translateX,
     translateY: state.translateY,
     resetZoom,
+    setZoom,
+    zoomBy,
     isZoomed: state.scale > 1,
     isInteracting,
   };
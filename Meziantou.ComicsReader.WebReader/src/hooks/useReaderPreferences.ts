@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getReaderPreferences, saveReaderPreferences } from '../services/storage';
+import type { ReaderPreferences } from '../types';
+
+interface LoadedPreferences {
+  bookPath: string;
+  book: ReaderPreferences;
+  directory: ReaderPreferences;
+}
+
+const EMPTY_PREFERENCES: ReaderPreferences = {};
+
+// "a/b/c" => ["a", "a/b", "a/b/c"] (farthest ancestor first)
+function getDirectoryChain(directory: string): string[] {
+  const parts = directory.split('/');
+  return parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+}
+
+// Undefined values mean "not set" and must not hide the value being overridden
+function mergePreferences(base: ReaderPreferences, overrides: ReaderPreferences): ReaderPreferences {
+  const merged: ReaderPreferences = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Load the reader preferences of a book. Book overrides take precedence over directory
+ * overrides, and the nearest directory wins over its parents.
+ */
+export function useReaderPreferences(bookPath: string | undefined, directory: string | null | undefined) {
+  const [loaded, setLoaded] = useState<LoadedPreferences | null>(null);
+  // Bumped after saving to reload the effective preferences
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!bookPath) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      const directoryChain = directory ? getDirectoryChain(directory) : [];
+      const [bookPreferences, ...directoryPreferences] = await Promise.all([
+        getReaderPreferences('book', bookPath),
+        ...directoryChain.map(path => getReaderPreferences('directory', path)),
+      ]);
+
+      if (!cancelled) {
+        setLoaded({
+          bookPath,
+          book: bookPreferences ?? {},
+          directory: directoryPreferences.reduce<ReaderPreferences>(
+            (merged, preferences) => preferences ? mergePreferences(merged, preferences) : merged,
+            {}
+          ),
+        });
+      }
+    };
+
+    load().catch(err => console.error('Failed to load reader preferences:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookPath, directory, version]);
+
+  // Ignore preferences loaded for a previous book
+  const current = loaded !== null && loaded.bookPath === bookPath ? loaded : null;
+  const bookPreferences = current?.book ?? EMPTY_PREFERENCES;
+  const directoryPreferences = current?.directory ?? EMPTY_PREFERENCES;
+
+  const updateBookPreferences = useCallback(async (preferences: ReaderPreferences) => {
+    if (!bookPath) return;
+
+    await saveReaderPreferences('book', bookPath, preferences);
+    setVersion(v => v + 1);
+  }, [bookPath]);
+
+  const updateDirectoryPreferences = useCallback(async (preferences: ReaderPreferences) => {
+    if (!bookPath || !directory) return;
+
+    await saveReaderPreferences('directory', directory, preferences);
+    setVersion(v => v + 1);
+  }, [bookPath, directory]);
+
+  return {
+    isLoaded: current !== null,
+    preferences: mergePreferences(directoryPreferences, bookPreferences),
+    bookPreferences,
+    directoryPreferences,
+    updateBookPreferences,
+    updateDirectoryPreferences,
+  };
+}
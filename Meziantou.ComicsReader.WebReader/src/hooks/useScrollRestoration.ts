@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+
+const STORAGE_PREFIX = 'scroll-position:';
+
+/**
+ * Save the scroll position of the document for a key (e.g. a route) and restore it when the
+ * component is mounted again, for instance when coming back from the reader.
+ * Restoration waits until the content is ready, so that the page is tall enough.
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  const restoredKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!ready || restoredKey.current === key) return;
+
+    const saved = sessionStorage.getItem(STORAGE_PREFIX + key);
+    const frame = requestAnimationFrame(() => {
+      restoredKey.current = key;
+      if (saved !== null) {
+        window.scrollTo(0, Number(saved));
+      }
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [key, ready]);
+
+  useEffect(() => {
+    let frame: number | null = null;
+
+    const save = () => {
+      frame = null;
+      // Don't overwrite the saved position before it has been restored
+      if (restoredKey.current === key) {
+        sessionStorage.setItem(STORAGE_PREFIX + key, String(window.scrollY));
+      }
+    };
+
+    const handleScroll = () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(save);
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [key]);
+}
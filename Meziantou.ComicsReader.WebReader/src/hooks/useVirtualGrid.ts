@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+import { computeVirtualGridRange, type VirtualGridRange } from '../utils';
+
+interface UseVirtualGridOptions {
+  itemCount: number;
+  itemWidth: number;
+  itemHeight: number;
+  gap: number;
+  overscanRows?: number;
+}
+
+interface Viewport {
+  containerWidth: number;
+  top: number;
+  height: number;
+}
+
+// Until the container is measured, assume it spans the window minus the page padding
+// so that the first render already has the right height (needed to restore the scroll position)
+function estimateViewport(): Viewport {
+  return {
+    containerWidth: Math.max(0, window.innerWidth - 32),
+    top: 0,
+    height: window.innerHeight,
+  };
+}
+
+/**
+ * Window a grid of fixed-size items scrolled by the document: only the rows intersecting the
+ * viewport, plus overscan rows, need to be rendered.
+ */
+export function useVirtualGrid(options: UseVirtualGridOptions) {
+  const { itemCount, itemWidth, itemHeight, gap, overscanRows = 2 } = options;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>(estimateViewport);
+
+  // The container is not rendered while the grid is empty
+  const hasItems = itemCount > 0;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame: number | null = null;
+
+    const update = () => {
+      frame = null;
+      const rect = container.getBoundingClientRect();
+      const next = { containerWidth: rect.width, top: -rect.top, height: window.innerHeight };
+
+      // Scrolling within the same rows doesn't change the rendered items, only re-render when needed
+      const rowPitch = itemHeight + gap;
+      setViewport(previous =>
+        previous.containerWidth === next.containerWidth &&
+        Math.floor(previous.top / rowPitch) === Math.floor(next.top / rowPitch) &&
+        Math.floor((previous.top + previous.height) / rowPitch) === Math.floor((next.top + next.height) / rowPitch)
+          ? previous
+          : next
+      );
+    };
+
+    const scheduleUpdate = () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(update);
+      }
+    };
+
+    const resizeObserver = new ResizeObserver(scheduleUpdate);
+    resizeObserver.observe(container);
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    scheduleUpdate();
+
+    return () => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+      resizeObserver.disconnect();
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, [itemHeight, gap, hasItems]);
+
+  const range: VirtualGridRange = computeVirtualGridRange({
+    itemCount,
+    itemWidth,
+    itemHeight,
+    gap,
+    containerWidth: viewport.containerWidth,
+    viewportTop: viewport.top,
+    viewportHeight: viewport.height,
+    overscanRows,
+  });
+
+  return { containerRef, range };
+}
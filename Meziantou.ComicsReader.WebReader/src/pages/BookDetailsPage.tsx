@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { BookCollection, ThumbnailStrip } from '../components';
+import { useDownloadQueue } from '../hooks';
+import {
+  enqueueDownloads,
+  getBookCacheStatus,
+  getCoverWithCache,
+  isOnMeteredConnection,
+} from '../services';
+import { getCachedPageIndices } from '../services/storage';
+import {
+  buildDirectoryListing,
+  formatFileSize,
+  formatRelativeTime,
+  getBookProgress,
+  getBrowseUrl,
+  getReaderUrl,
+} from '../utils';
+import type { DownloadQueueItem } from '../types';
+import './BookDetailsPage.css';
+
+type CacheStatus = Awaited<ReturnType<typeof getBookCacheStatus>>;
+
+function getDownloadButtonText(item: DownloadQueueItem | null): string {
+  switch (item?.status) {
+    case 'downloading':
+      return `Downloading... ${Math.round((item.downloadedPages / Math.max(1, item.book.pageCount)) * 100)}%`;
+    case 'queued':
+      return 'Queued';
+    case 'paused':
+      return 'Resume download';
+    case 'failed':
+      return 'Retry download';
+    default:
+      return 'Download';
+  }
+}
+
+export function BookDetailsPage() {
+  const { path } = useParams<{ path: string }>();
+  const navigate = useNavigate();
+  const { apiClient, books, isLoading, online, refreshData, resetProgress, markAsUnread } = useApp();
+
+  const [cover, setCover] = useState<{ path: string; url: string } | null>(null);
+  const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null);
+  const [cachedPages, setCachedPages] = useState<ReadonlySet<number>>(new Set());
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bookPath = path ? decodeURIComponent(path) : null;
+  const book = useMemo(() => books.find(b => b.path === bookPath) ?? null, [books, bookPath]);
+  const downloadQueue = useDownloadQueue();
+  const queueItem = downloadQueue.find(item => item.path === bookPath) ?? null;
+
+  // Other books of the same directory, in reading order
+  const otherVolumes = useMemo(() => {
+    if (!book) return [];
+    return buildDirectoryListing(books, book.directory).books.filter(b => b.path !== book.path);
+  }, [books, book]);
+
+  useEffect(() => {
+    if (!book?.coverImageFileName || !apiClient) return;
+
+    let cancelled = false;
+    getCoverWithCache(apiClient, book.path)
+      .then(url => {
+        if (!cancelled && url) {
+          setCover({ path: book.path, url });
+        }
+      })
+      .catch(err => console.error('Failed to load cover:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [book?.path, book?.coverImageFileName, apiClient]);
+
+  // The page is kept when navigating to another book, ignore the cover of the previous one
+  const coverUrl = cover && cover.path === bookPath ? cover.url : null;
+
+  const bookPageCount = book?.pageCount;
+  const isDownloading = queueItem !== null;
+
+  // Reload the cache status once the book leaves the download queue
+  useEffect(() => {
+    if (!bookPath || bookPageCount === undefined || isDownloading) return;
+
+    let cancelled = false;
+    Promise.all([getBookCacheStatus(bookPath, bookPageCount), getCachedPageIndices(bookPath)])
+      .then(([status, indices]) => {
+        if (!cancelled) {
+          setCacheStatus(status);
+          setCachedPages(new Set(indices));
+        }
+      })
+      .catch(err => console.error('Failed to load cache status:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookPath, bookPageCount, isDownloading]);
+
+  const handleDownload = async () => {
+    if (!book || !apiClient) return;
+
+    if (isOnMeteredConnection()) {
+      setError('Cannot download on metered connection');
+      return;
+    }
+
+    setError(null);
+
+    try {
+      // Downloaded next, after the book being downloaded
+      await enqueueDownloads([book], { prioritize: true });
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to download book: ${errMsg}`);
+    }
+  };
+
+  const handleMarkAsRead = async () => {
+    if (!book || !apiClient) return;
+
+    setError(null);
+    setIsUpdating(true);
+
+    try {
+      await apiClient.markAsRead(book.path);
+      await refreshData(true);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to mark as read: ${errMsg}`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleMarkAsUnread = async () => {
+    if (!book) return;
+
+    setError(null);
+    setIsUpdating(true);
+
+    try {
+      await markAsUnread(book.path);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to mark as unread: ${errMsg}`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleResetProgress = async () => {
+    if (!book) return;
+
+    if (!confirm(`Reset the reading progress of "${book.title}"?`)) {
+      return;
+    }
+
+    setError(null);
+    setIsUpdating(true);
+
+    try {
+      await resetProgress(book.path);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to reset progress: ${errMsg}`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Go back to where the page was opened from, or to the catalog when the page was opened directly
+  const goBack = () => {
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
+  if (!book) {
+    return (
+      <div className="book-details-page">
+        <div className="book-details-header">
+          <button className="back-button" onClick={goBack}>
+            ← Back
+          </button>
+        </div>
+        {isLoading || books.length === 0 ? (
+          <div className="loading">Loading...</div>
+        ) : (
+          <div className="error-banner">Book not found</div>
+        )}
+      </div>
+    );
+  }
+
+  const hasProgress = book.currentPage !== null || book.isCompleted;
+  const progressPercent = Math.round(getBookProgress(book) * 100);
+  const resumePage = book.isCompleted ? 0 : book.currentPage ?? 0;
+
+  return (
+    <div className="book-details-page">
+      <div className="book-details-header">
+        <button className="back-button" onClick={goBack}>
+          ← Back
+        </button>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      <section className="book-details">
+        <div className="book-details-cover">
+          {coverUrl ? (
+            <img src={coverUrl} alt={book.title} />
+          ) : (
+            <div className="book-cover-placeholder">
+              <span>📖</span>
+            </div>
+          )}
+        </div>
+
+        <div className="book-details-info">
+          <h1>{book.title}</h1>
+          {book.directory && (
+            <Link to={getBrowseUrl(book.directory)} className="book-details-directory">
+              {book.directory}/
+            </Link>
+          )}
+
+          <dl className="book-details-properties">
+            <dt>Pages</dt>
+            <dd>{book.pageCount}</dd>
+            <dt>Size</dt>
+            <dd>{formatFileSize(book.fileSize)}</dd>
+            <dt>Progress</dt>
+            <dd>
+              {book.isCompleted
+                ? 'Completed'
+                : book.currentPage !== null
+                  ? `Page ${book.currentPage + 1} / ${book.pageCount} (${progressPercent}%)`
+                  : 'Not started'}
+            </dd>
+            <dt>Last read</dt>
+            <dd title={book.lastRead ? new Date(book.lastRead).toLocaleString() : undefined}>
+              {book.lastRead ? formatRelativeTime(book.lastRead) : 'Never'}
+            </dd>
+            <dt>Offline</dt>
+            <dd>
+              {cacheStatus === null
+                ? '…'
+                : cacheStatus.isFullyDownloaded
+                  ? 'Downloaded'
+                  : cacheStatus.isCached
+                    ? `${cacheStatus.cachedPages} / ${cacheStatus.totalPages} pages cached`
+                    : 'Not downloaded'}
+            </dd>
+          </dl>
+
+          {hasProgress && (
+            <div className="book-details-progress">
+              <div className="book-details-progress-bar" style={{ width: `${progressPercent}%` }} />
+            </div>
+          )}
+
+          <div className="book-details-actions">
+            <Link to={getReaderUrl(book.path, resumePage)} className="action-button primary">
+              {book.isCompleted ? 'Read again' : book.currentPage !== null ? 'Continue reading' : 'Read'}
+            </Link>
+            <button
+              className="action-button"
+              onClick={handleDownload}
+              disabled={!online || queueItem?.status === 'queued' || queueItem?.status === 'downloading' || (cacheStatus?.isFullyDownloaded ?? false)}
+            >
+              {getDownloadButtonText(queueItem)}
+            </button>
+            {queueItem && (
+              <Link to="/downloads" className="action-button">
+                View downloads
+              </Link>
+            )}
+            {book.isCompleted ? (
+              <button className="action-button" onClick={handleMarkAsUnread} disabled={isUpdating}>
+                Mark as unread
+              </button>
+            ) : (
+              <button className="action-button" onClick={handleMarkAsRead} disabled={!online || isUpdating}>
+                Mark as read
+              </button>
+            )}
+            <button
+              className="action-button"
+              onClick={handleResetProgress}
+              disabled={isUpdating || !hasProgress}
+            >
+              Reset progress
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <section className="book-details-section">
+        <h2>Pages</h2>
+        {cachedPages.size > 0 ? (
+          <ThumbnailStrip
+            bookPath={book.path}
+            pageCount={book.pageCount}
+            currentPage={resumePage}
+            cachedPages={cachedPages}
+            isRightToLeft={false}
+            onSelect={pageIndex => navigate(getReaderUrl(book.path, pageIndex))}
+          />
+        ) : (
+          <p className="book-details-help">Download the book to preview its pages.</p>
+        )}
+      </section>
+
+      {otherVolumes.length > 0 && (
+        <section className="book-details-section">
+          <h2>Other volumes in {book.directory ?? 'the library root'}</h2>
+          <BookCollection books={otherVolumes} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { getAllBookmarks, removeBookmark } from '../services/storage';
+import { formatRelativeTime, getReaderUrl } from '../utils';
+import type { Bookmark } from '../types';
+import './BookmarksPage.css';
+
+interface BookmarkGroup {
+  bookPath: string;
+  title: string;
+  bookmarks: Bookmark[];
+}
+
+export function BookmarksPage() {
+  const navigate = useNavigate();
+  const { books } = useApp();
+
+  const [bookmarks, setBookmarks] = useState<Bookmark[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadBookmarks = async () => {
+      try {
+        setBookmarks(await getAllBookmarks());
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        setError(`Failed to load bookmarks: ${errMsg}`);
+      }
+    };
+
+    loadBookmarks();
+  }, []);
+
+  // Group by book, sorted by title then page
+  const groups = useMemo(() => {
+    const titles = new Map(books.map(b => [b.path, b.title]));
+    const byBook = new Map<string, BookmarkGroup>();
+
+    for (const bookmark of bookmarks ?? []) {
+      let group = byBook.get(bookmark.bookPath);
+      if (!group) {
+        group = {
+          bookPath: bookmark.bookPath,
+          title: titles.get(bookmark.bookPath) ?? bookmark.bookPath,
+          bookmarks: [],
+        };
+        byBook.set(bookmark.bookPath, group);
+      }
+      group.bookmarks.push(bookmark);
+    }
+
+    const result = [...byBook.values()];
+    for (const group of result) {
+      group.bookmarks.sort((a, b) => a.pageIndex - b.pageIndex);
+    }
+    return result.sort((a, b) => a.title.localeCompare(b.title));
+  }, [bookmarks, books]);
+
+  const handleRemove = async (bookmark: Bookmark) => {
+    try {
+      await removeBookmark(bookmark.bookPath, bookmark.pageIndex);
+      setBookmarks(previous => previous?.filter(b => b !== bookmark) ?? null);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to remove bookmark: ${errMsg}`);
+    }
+  };
+
+  return (
+    <div className="bookmarks-page">
+      <div className="bookmarks-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back
+        </button>
+        <h1>Bookmarks</h1>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {bookmarks === null ? (
+        <div className="loading">Loading...</div>
+      ) : groups.length === 0 ? (
+        <p className="bookmarks-page-empty">
+          No bookmarks yet. Bookmark pages from the reader to find them here.
+        </p>
+      ) : (
+        groups.map(group => (
+          <section key={group.bookPath} className="bookmark-group">
+            <h2>{group.title}</h2>
+            <ul className="bookmark-group-list">
+              {group.bookmarks.map(bookmark => (
+                <li key={bookmark.pageIndex} className="bookmark-group-item">
+                  <Link to={getReaderUrl(bookmark.bookPath, bookmark.pageIndex)} className="bookmark-link">
+                    <span className="bookmark-link-page">Page {bookmark.pageIndex + 1}</span>
+                    {bookmark.note && <span className="bookmark-link-note">{bookmark.note}</span>}
+                  </Link>
+                  <span className="bookmark-date">{formatRelativeTime(bookmark.createdAt)}</span>
+                  <button
+                    className="bookmark-remove"
+                    onClick={() => handleRemove(bookmark)}
+                    aria-label={`Remove bookmark on page ${bookmark.pageIndex + 1}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
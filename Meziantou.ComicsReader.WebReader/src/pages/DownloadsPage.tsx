@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { useDownloadQueue } from '../hooks';
+import {
+  cancelDownloads,
+  isOnMeteredConnection,
+  pauseDownloads,
+  prioritizeDownload,
+  resumeDownloads,
+} from '../services';
+import { computeDownloadProgress, getBookUrl } from '../utils';
+import type { DownloadQueueItem } from '../types';
+import './DownloadsPage.css';
+
+function getStatusText(item: DownloadQueueItem): string {
+  switch (item.status) {
+    case 'downloading':
+      return `Downloading ${item.downloadedPages} / ${item.book.pageCount} pages`;
+    case 'paused':
+      return 'Paused';
+    case 'failed':
+      return `Failed: ${item.error ?? 'unknown error'}`;
+    case 'queued':
+      return item.nextAttemptAt
+        ? `Retry ${item.attempts} at ${new Date(item.nextAttemptAt).toLocaleTimeString()}: ${item.error ?? 'unknown error'}`
+        : 'Queued';
+  }
+}
+
+export function DownloadsPage() {
+  const navigate = useNavigate();
+  const { online } = useApp();
+  const queue = useDownloadQueue();
+  const [error, setError] = useState<string | null>(null);
+
+  const progress = computeDownloadProgress(queue);
+  const progressPercent = progress.totalPages > 0 ? (progress.downloadedPages / progress.totalPages) * 100 : 0;
+  const pausedPaths = queue.filter(item => item.status === 'paused' || item.status === 'failed').map(item => item.path);
+  const activePaths = queue.filter(item => item.status === 'queued' || item.status === 'downloading').map(item => item.path);
+
+  const run = async (action: string, operation: () => Promise<void>) => {
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to ${action}: ${errMsg}`);
+    }
+  };
+
+  const handleCancelAll = () => {
+    if (!confirm('Cancel all downloads?')) {
+      return;
+    }
+
+    run('cancel downloads', () => cancelDownloads(queue.map(item => item.path)));
+  };
+
+  return (
+    <div className="downloads-page">
+      <div className="downloads-header">
+        <button className="back-button" onClick={() => navigate(-1)}>
+          ← Back
+        </button>
+        <h1>Downloads</h1>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {!online ? (
+        <p className="downloads-help">Downloads resume when back online.</p>
+      ) : isOnMeteredConnection() ? (
+        <p className="downloads-help">Downloads are paused on metered connections.</p>
+      ) : null}
+
+      {queue.length === 0 ? (
+        <p className="downloads-help">No downloads in progress.</p>
+      ) : (
+        <>
+          <section className="downloads-summary">
+            <p>
+              {queue.length} {queue.length === 1 ? 'book' : 'books'} • {progress.downloadedPages} / {progress.totalPages} pages
+            </p>
+            <div className="downloads-progress">
+              <div className="downloads-progress-bar" style={{ width: `${progressPercent}%` }} />
+            </div>
+            <div className="downloads-actions">
+              <button
+                className="action-button"
+                onClick={() => run('pause downloads', () => pauseDownloads(activePaths))}
+                disabled={activePaths.length === 0}
+              >
+                Pause all
+              </button>
+              <button
+                className="action-button"
+                onClick={() => run('resume downloads', () => resumeDownloads(pausedPaths))}
+                disabled={pausedPaths.length === 0}
+              >
+                Resume all
+              </button>
+              <button className="action-button danger" onClick={handleCancelAll}>
+                Cancel all
+              </button>
+            </div>
+          </section>
+
+          <ul className="downloads-list">
+            {queue.map((item, index) => (
+              <li key={item.path} className={`downloads-item ${item.status}`}>
+                <div className="downloads-item-info">
+                  <Link to={getBookUrl(item.path)} className="downloads-item-title">
+                    {item.book.title}
+                  </Link>
+                  <span className="downloads-item-status">{getStatusText(item)}</span>
+                  <div className="downloads-progress">
+                    <div
+                      className="downloads-progress-bar"
+                      style={{ width: `${(item.downloadedPages / Math.max(1, item.book.pageCount)) * 100}%` }}
+                    />
+                  </div>
+                </div>
+                <div className="downloads-item-actions">
+                  <button
+                    className="downloads-item-button"
+                    onClick={() => run('prioritize download', () => prioritizeDownload(item.path))}
+                    disabled={index === 0 || item.status === 'downloading'}
+                    title="Download next"
+                  >
+                    ⤒
+                  </button>
+                  {item.status === 'paused' || item.status === 'failed' ? (
+                    <button
+                      className="downloads-item-button"
+                      onClick={() => run('resume download', () => resumeDownloads([item.path]))}
+                      title={item.status === 'failed' ? 'Retry' : 'Resume'}
+                    >
+                      ▶
+                    </button>
+                  ) : (
+                    <button
+                      className="downloads-item-button"
+                      onClick={() => run('pause download', () => pauseDownloads([item.path]))}
+                      title="Pause"
+                    >
+                      ⏸
+                    </button>
+                  )}
+                  <button
+                    className="downloads-item-button"
+                    onClick={() => run('cancel download', () => cancelDownloads([item.path]))}
+                    title="Cancel"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
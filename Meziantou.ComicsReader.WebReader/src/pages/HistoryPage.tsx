@@ -0,0 +1,155 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { getCoverWithCache, getReadingHistoryWithCache, type ApiClient } from '../services';
+import { getReaderUrl, groupByMonth } from '../utils';
+import type { ReadingHistoryItemResponse } from '../types';
+import './HistoryPage.css';
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+interface HistoryEntryProps {
+  apiClient: ApiClient | null;
+  item: ReadingHistoryItemResponse;
+  title: string;
+  isAvailable: boolean;
+  onReadAgain: (bookPath: string) => void;
+}
+
+function HistoryEntry({ apiClient, item, title, isAvailable, onReadAgain }: HistoryEntryProps) {
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCover = async () => {
+      const url = await getCoverWithCache(apiClient, item.bookPath);
+      if (!cancelled && url) {
+        setCoverUrl(url);
+      }
+    };
+
+    loadCover();
+
+    return () => {
+      cancelled = true;
+      // Don't revoke the blob URL - it's managed by the cover cache
+    };
+  }, [apiClient, item.bookPath]);
+
+  return (
+    <li className="history-entry">
+      <div className="history-cover">
+        {coverUrl ? (
+          <img src={coverUrl} alt={title} loading="lazy" />
+        ) : (
+          <span className="history-cover-placeholder">📖</span>
+        )}
+      </div>
+      <div className="history-details">
+        <span className="history-title">{title}</span>
+        <span className="history-date">
+          Completed on {new Date(item.completedAt).toLocaleDateString()}
+        </span>
+      </div>
+      <button
+        className="history-read-again"
+        onClick={() => onReadAgain(item.bookPath)}
+        disabled={!isAvailable}
+        title={isAvailable ? undefined : 'This book is no longer in the catalog'}
+      >
+        Read again
+      </button>
+    </li>
+  );
+}
+
+export function HistoryPage() {
+  const navigate = useNavigate();
+  const { apiClient, books, online } = useApp();
+
+  const [items, setItems] = useState<ReadingHistoryItemResponse[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const history = await getReadingHistoryWithCache(apiClient);
+        if (!cancelled) {
+          setItems(history);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errMsg = err instanceof Error ? err.message : String(err);
+          setError(`Failed to load reading history: ${errMsg}`);
+        }
+      }
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, online]);
+
+  const booksByPath = useMemo(() => new Map(books.map(b => [b.path, b])), [books]);
+  const months = useMemo(() => groupByMonth(items ?? [], item => item.completedAt), [items]);
+
+  const readAgain = (bookPath: string) => {
+    navigate(getReaderUrl(bookPath, 0));
+  };
+
+  return (
+    <div className="history-page">
+      <div className="history-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back
+        </button>
+        <h1>History</h1>
+      </div>
+
+      {!online && items !== null && (
+        <div className="offline-banner">
+          You are offline. Showing the history from your last visit.
+        </div>
+      )}
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {items === null && !error ? (
+        <div className="loading">Loading...</div>
+      ) : items !== null && items.length === 0 ? (
+        <p className="history-empty">No completed books yet.</p>
+      ) : (
+        months.map(({ month, items: monthItems }) => (
+          <section key={month} className="history-month">
+            <h2>{formatMonth(month)} ({monthItems.length})</h2>
+            <ul className="history-list">
+              {monthItems.map(item => {
+                const book = booksByPath.get(item.bookPath);
+                // The catalog is empty until it has been loaded, don't disable everything meanwhile
+                const isAvailable = books.length === 0 || book !== undefined;
+                return (
+                  <HistoryEntry
+                    key={item.bookPath}
+                    apiClient={apiClient}
+                    item={item}
+                    title={item.bookTitle ?? book?.title ?? item.bookPath}
+                    isAvailable={isAvailable}
+                    onReadAgain={readAgain}
+                  />
+                );
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
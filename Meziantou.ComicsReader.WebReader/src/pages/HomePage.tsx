@@ -1,26 +1,95 @@
 import { useState, useMemo } from 'react';
+import { Link, useLocation, useParams, useSearchParams } from 'react-router-dom';
 import { useApp } from '../context';
-import { usePullToRefresh } from '../hooks';
-import { containsInsensitive } from '../utils';
+import { usePullToRefresh, useScrollRestoration } from '../hooks';
+import {
+  buildDirectoryListing,
+  filterBooksByQuery,
+  getSearchTexts,
+  getShelfBooks,
+  parseSearchQuery,
+  rankBooksByRelevance,
+  scoreSearchText,
+  getBooksInDirectory,
+  getBrowseUrl,
+  getDirectoryBreadcrumbs,
+  isCatalogSortField,
+  isSortDirection,
+  sortBooks,
+  SEARCH_SYNTAX_HINTS,
+  type SearchContext,
+} from '../utils';
 import {
   BookCollection,
   FilterChips,
   SearchBar,
   PullToRefreshIndicator,
+  SeriesActions,
+  SeriesTile,
+  ShelfSection,
+  SortSelector,
 } from '../components';
-import type { FilterType } from '../types';
+import { FAVORITES_SHELF_ID } from '../services/storage';
+import type { CatalogSortField, FilterType, SortDirection } from '../types';
 import './HomePage.css';
 
 export function HomePage() {
-  const { books, readingList, nextToRead, isLoading, error, refreshData, online } = useApp();
+  const {
+    books,
+    readingList,
+    nextToRead,
+    booksFirstSeen,
+    newBooks,
+    dismissNewBooks,
+    cachedBooksInfo,
+    searchIndex,
+    shelves,
+    moveShelfBook,
+    renameShelf,
+    removeShelf,
+    isLoading,
+    error,
+    refreshData,
+    online,
+    settings,
+    updateSettings,
+  } = useApp();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+
+  // The directory browser is served under /browse/*, the splat being the current directory
+  const browsePath = useParams()['*'];
+  const isBrowsing = browsePath !== undefined;
+  const directory = browsePath ? browsePath : null;
 
   const [search, setSearch] = useState('');
   const [filter, setFilter] = useState<FilterType>('all');
 
+  // The sort from the URL wins over the saved one, so that sorted views can be shared
+  const sortParam = searchParams.get('sort');
+  const orderParam = searchParams.get('order');
+  const sortField = isCatalogSortField(sortParam) ? sortParam : settings.catalogSortField;
+  const sortDirection = isSortDirection(orderParam) ? orderParam : settings.catalogSortDirection;
+
+  const handleSortChange = (field: CatalogSortField, direction: SortDirection) => {
+    setSearchParams(params => {
+      params.set('sort', field);
+      params.set('order', direction);
+      return params;
+    }, { replace: true });
+
+    updateSettings({ ...settings, catalogSortField: field, catalogSortDirection: direction }).catch(err =>
+      console.error('Failed to save sort order:', err)
+    );
+  };
+
   const { containerRef, pullDistance, isRefreshing, handlers } = usePullToRefresh({
     onRefresh: refreshData,
   });
 
+  // Come back to the same place in the catalog after reading a book
+  useScrollRestoration(`${location.pathname}${location.search}`, books.length > 0);
+
   // Reading list (in progress books, sorted by last read)
   const inProgressBooks = useMemo(() => {
     const bookPaths = new Set(books.map(b => b.path));
@@ -32,6 +101,14 @@ export function HomePage() {
     return inProgress;
   }, [readingList, books]);
 
+  const searchContext = useMemo<SearchContext>(() => ({
+    isOffline: path => cachedBooksInfo.get(path)?.fullyDownloaded ?? false,
+    matchesText: (book, text) => scoreSearchText(searchIndex, book, text) > 0,
+  }), [cachedBooksInfo, searchIndex]);
+
+  // Free text of the search, used to show the most relevant results first
+  const searchTexts = useMemo(() => getSearchTexts(parseSearchQuery(search)), [search]);
+
   // Apply filters and search to catalog
   const filteredBooks = useMemo(() => {
     // Don't copy array, just filter and sort
@@ -45,17 +122,72 @@ export function HomePage() {
     }
 
     // Apply search
-    if (search.trim()) {
-      result = result.filter(
-        book =>
-          containsInsensitive(book.title, search) ||
-          containsInsensitive(book.path, search)
-      );
+    result = filterBooksByQuery(result, search, searchContext);
+
+    // Books with the same relevance stay in the selected order
+    result = sortBooks(result, sortField, sortDirection, booksFirstSeen);
+    return rankBooksByRelevance(searchIndex, result, searchTexts);
+  }, [books, filter, search, searchContext, searchTexts, searchIndex, sortField, sortDirection, booksFirstSeen]);
+
+  const directoryListing = useMemo(() => {
+    if (!isBrowsing) return null;
+    return buildDirectoryListing(books, directory);
+  }, [books, isBrowsing, directory]);
+
+  // Every book of the series being browsed, for the series downloads
+  const directoryBooks = useMemo(() => {
+    if (!isBrowsing || directory === null) return null;
+    return getBooksInDirectory(books, directory);
+  }, [books, isBrowsing, directory]);
+
+  // Searching while browsing looks for books anywhere under the current directory
+  const directorySearchResults = useMemo(() => {
+    if (!isBrowsing || !search.trim()) return null;
+    const results = filterBooksByQuery(getBooksInDirectory(books, directory), search, searchContext);
+    return rankBooksByRelevance(searchIndex, results, searchTexts);
+  }, [books, isBrowsing, directory, search, searchContext, searchTexts, searchIndex]);
+
+  // Favorites are only shown once they have books, custom shelves always so that they can be managed
+  const shelfSections = useMemo(() => shelves
+    .map(shelf => ({ shelf, books: getShelfBooks(shelf, books) }))
+    .filter(({ shelf, books }) => shelf.id !== FAVORITES_SHELF_ID || books.length > 0),
+  [shelves, books]);
+
+  const handleShelfMove = (shelfId: string, bookPath: string, targetBookPath: string) => {
+    const shelf = shelves.find(s => s.id === shelfId);
+    if (!shelf) return;
+
+    moveShelfBook(shelfId, shelf.bookPaths.indexOf(bookPath), shelf.bookPaths.indexOf(targetBookPath)).catch(err =>
+      console.error('Failed to reorder shelf:', err)
+    );
+  };
+
+  const handleShelfRename = (shelfId: string, currentName: string) => {
+    const name = prompt('Shelf name', currentName)?.trim();
+    if (!name || name === currentName) return;
+
+    renameShelf(shelfId, name).catch(err => console.error('Failed to rename shelf:', err));
+  };
+
+  // Newest first
+  const recentlyAddedBooks = useMemo(
+    () => sortBooks(books.filter(book => newBooks.has(book.path)), 'added', 'desc', booksFirstSeen),
+    [books, newBooks, booksFirstSeen]
+  );
+
+  const handleDismissRecentlyAdded = () => {
+    dismissNewBooks(recentlyAddedBooks.map(book => book.path)).catch(err =>
+      console.error('Failed to dismiss new books:', err)
+    );
+  };
+
+  const handleShelfDelete = (shelfId: string, name: string) => {
+    if (!confirm(`Are you sure you want to delete the shelf "${name}"? The books are not deleted.`)) {
+      return;
     }
 
-    // Sort returns a new array, so we don't need to copy
-    return result.slice().sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
-  }, [books, filter, search]);
+    removeShelf(shelfId).catch(err => console.error('Failed to delete shelf:', err));
+  };
 
   if (isLoading && books.length === 0) {
     return (
@@ -84,30 +216,104 @@ export function HomePage() {
 
       {error && <div className="error-banner">{error}</div>}
 
-      {inProgressBooks.length > 0 && (
+      {!isBrowsing && inProgressBooks.length > 0 && (
         <section className="section">
           <h2>Reading List</h2>
           <BookCollection books={inProgressBooks} />
         </section>
       )}
 
-      {nextToRead.length > 0 && (
+      {!isBrowsing && nextToRead.length > 0 && (
         <section className="section">
           <h2>Up Next</h2>
           <BookCollection books={nextToRead} showProgress={false} />
         </section>
       )}
 
-      <section className="section">
-        <h2>Catalog ({filteredBooks.length})</h2>
-        <SearchBar
-          value={search}
-          onChange={setSearch}
-          placeholder="Search books..."
+      {!isBrowsing && recentlyAddedBooks.length > 0 && (
+        <section className="section">
+          <div className="catalog-header">
+            <h2>Recently Added</h2>
+            <button className="catalog-view-link" onClick={handleDismissRecentlyAdded}>
+              Dismiss all
+            </button>
+          </div>
+          <BookCollection books={recentlyAddedBooks} showProgress={false} />
+        </section>
+      )}
+
+      {!isBrowsing && shelfSections.map(({ shelf, books: shelfBooks }) => (
+        <ShelfSection
+          key={shelf.id}
+          shelf={shelf}
+          books={shelfBooks}
+          onMove={(bookPath, targetBookPath) => handleShelfMove(shelf.id, bookPath, targetBookPath)}
+          onRename={shelf.id !== FAVORITES_SHELF_ID ? () => handleShelfRename(shelf.id, shelf.name) : undefined}
+          onDelete={shelf.id !== FAVORITES_SHELF_ID ? () => handleShelfDelete(shelf.id, shelf.name) : undefined}
         />
-        <FilterChips currentFilter={filter} onFilterChange={setFilter} />
-        <BookCollection books={filteredBooks} showProgress={false} />
-      </section>
+      ))}
+
+      {directoryListing ? (
+        <section className="section">
+          <div className="catalog-header">
+            <h2>Series</h2>
+            <Link to="/" className="catalog-view-link">All books</Link>
+          </div>
+          <nav className="breadcrumbs" aria-label="Directories">
+            <Link to={getBrowseUrl(null)}>Library</Link>
+            {directory && getDirectoryBreadcrumbs(directory).map(crumb => (
+              <span key={crumb.path}>
+                <span className="breadcrumb-separator">›</span>
+                <Link to={getBrowseUrl(crumb.path)}>{crumb.name}</Link>
+              </span>
+            ))}
+          </nav>
+          {directoryBooks && directoryBooks.length > 0 && (
+            <SeriesActions key={directory} books={directoryBooks} />
+          )}
+          <SearchBar
+            value={search}
+            onChange={setSearch}
+            placeholder={directory ? 'Search in this directory...' : 'Search books...'}
+            hints={SEARCH_SYNTAX_HINTS}
+          />
+          {directorySearchResults ? (
+            <BookCollection books={directorySearchResults} showProgress={false} />
+          ) : (
+            <>
+              {directoryListing.directories.length > 0 && (
+                <div className="series-collection">
+                  {directoryListing.directories.map(entry => (
+                    <SeriesTile key={entry.path} entry={entry} />
+                  ))}
+                </div>
+              )}
+              <BookCollection books={directoryListing.books} />
+              {directoryListing.directories.length === 0 && directoryListing.books.length === 0 && (
+                <p className="catalog-empty">This directory is empty.</p>
+              )}
+            </>
+          )}
+        </section>
+      ) : (
+        <section className="section">
+          <div className="catalog-header">
+            <h2>Catalog ({filteredBooks.length})</h2>
+            <Link to={getBrowseUrl(null)} className="catalog-view-link">Browse series</Link>
+          </div>
+          <SearchBar
+            value={search}
+            onChange={setSearch}
+            placeholder="Search books..."
+            hints={SEARCH_SYNTAX_HINTS}
+          />
+          <div className="catalog-toolbar">
+            <FilterChips currentFilter={filter} onFilterChange={setFilter} />
+            <SortSelector field={sortField} direction={sortDirection} onChange={handleSortChange} />
+          </div>
+          <BookCollection books={filteredBooks} showProgress={false} />
+        </section>
+      )}
     </div>
   );
 }
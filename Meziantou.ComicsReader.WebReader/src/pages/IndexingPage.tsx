@@ -0,0 +1,209 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { SearchBar } from '../components';
+import { containsInsensitive, formatRelativeTime } from '../utils';
+import type { IndexingStatusResponse } from '../types';
+import './IndexingPage.css';
+
+// Poll faster while the server is indexing so that progress is visible
+const IDLE_POLL_INTERVAL_MS = 30000;
+const IN_PROGRESS_POLL_INTERVAL_MS = 2000;
+
+const ALL_MESSAGES = '';
+
+export function IndexingPage() {
+  const navigate = useNavigate();
+  const { apiClient, triggerReindex, online } = useApp();
+
+  const [status, setStatus] = useState<IndexingStatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReindexing, setIsReindexing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [messageFilter, setMessageFilter] = useState(ALL_MESSAGES);
+
+  const isInProgress = isReindexing || (status?.isInProgress ?? false);
+
+  useEffect(() => {
+    if (!apiClient || !online) return;
+
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      let nextInterval = IDLE_POLL_INTERVAL_MS;
+      try {
+        const response = await apiClient.getIndexingStatus();
+        if (cancelled) return;
+
+        setStatus(response);
+        setError(null);
+        if (response.isInProgress) {
+          nextInterval = IN_PROGRESS_POLL_INTERVAL_MS;
+        }
+      } catch (err) {
+        if (cancelled) return;
+
+        const errMsg = err instanceof Error ? err.message : String(err);
+        setError(`Failed to load indexing status: ${errMsg}`);
+      }
+
+      timeoutId = setTimeout(poll, nextInterval);
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    };
+  }, [apiClient, online]);
+
+  // Distinct error messages, most frequent first
+  const messages = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const indexingError of status?.errors ?? []) {
+      counts.set(indexingError.message, (counts.get(indexingError.message) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [status]);
+
+  const filteredErrors = useMemo(() => {
+    let result = status?.errors ?? [];
+
+    if (messageFilter !== ALL_MESSAGES) {
+      result = result.filter(e => e.message === messageFilter);
+    }
+
+    if (search.trim()) {
+      result = result.filter(
+        e => containsInsensitive(e.path, search) || containsInsensitive(e.message, search)
+      );
+    }
+
+    return result.slice().sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+  }, [status, messageFilter, search]);
+
+  const handleReindex = async () => {
+    setIsReindexing(true);
+    setError(null);
+
+    try {
+      await triggerReindex(setStatus);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to refresh catalog: ${errMsg}`);
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  return (
+    <div className="indexing-page">
+      <div className="indexing-header">
+        <button className="back-button" onClick={() => navigate('/settings')}>
+          ← Back
+        </button>
+        <h1>Indexing</h1>
+      </div>
+
+      {!online && (
+        <div className="offline-banner">
+          You are offline. The indexing status is not available.
+        </div>
+      )}
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {online && status === null && !error && <div className="loading">Loading...</div>}
+
+      {status && (
+        <>
+          <section className="indexing-summary">
+            <div className="indexing-stat">
+              <span className="indexing-stat-label">Status</span>
+              <span className={`indexing-stat-value ${isInProgress ? 'in-progress' : ''}`}>
+                {isInProgress ? 'Indexing…' : 'Idle'}
+              </span>
+            </div>
+            <div className="indexing-stat">
+              <span className="indexing-stat-label">Last indexation</span>
+              <span className="indexing-stat-value" title={new Date(status.lastIndexationDate).toLocaleString()}>
+                {status.firstIndexationCompleted ? formatRelativeTime(status.lastIndexationDate) : 'Never'}
+              </span>
+            </div>
+            <div className="indexing-stat">
+              <span className="indexing-stat-label">First indexation</span>
+              <span className="indexing-stat-value">
+                {status.firstIndexationCompleted ? 'Completed' : 'Pending'}
+              </span>
+            </div>
+            <div className="indexing-stat">
+              <span className="indexing-stat-label">Errors</span>
+              <span className={`indexing-stat-value ${status.errorCount > 0 ? 'has-errors' : ''}`}>
+                {status.errorCount}
+              </span>
+            </div>
+          </section>
+
+          <button
+            onClick={handleReindex}
+            disabled={isInProgress}
+            className="action-button"
+          >
+            {isInProgress ? 'Refreshing...' : 'Refresh Catalog'}
+          </button>
+
+          <section className="indexing-errors">
+            <h2>Errors ({filteredErrors.length})</h2>
+            {status.errors.length === 0 ? (
+              <p className="indexing-no-errors">No indexing errors.</p>
+            ) : (
+              <>
+                <div className="indexing-filters">
+                  <SearchBar
+                    value={search}
+                    onChange={setSearch}
+                    placeholder="Search paths or messages..."
+                  />
+                  <select
+                    value={messageFilter}
+                    onChange={(e) => setMessageFilter(e.target.value)}
+                    aria-label="Filter by error"
+                  >
+                    <option value={ALL_MESSAGES}>All errors</option>
+                    {messages.map(([message, count]) => (
+                      <option key={message} value={message}>
+                        {message} ({count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="indexing-table-container">
+                  <table className="indexing-table">
+                    <thead>
+                      <tr>
+                        <th>Path</th>
+                        <th>Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredErrors.map(indexingError => (
+                        <tr key={indexingError.path}>
+                          <td className="indexing-error-path">{indexingError.path}</td>
+                          <td className="indexing-error-message">{indexingError.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
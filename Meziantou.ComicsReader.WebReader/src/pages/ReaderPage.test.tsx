@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { ReaderPage } from './ReaderPage';
+import type { BookResponse, FitMode, ReaderPreferences } from '../types';
+
+const book: BookResponse = {
+  path: 'series/book.cbz',
+  title: 'Book',
+  pageCount: 10,
+  fileSize: 1000,
+  coverImageFileName: null,
+  directory: 'series',
+  firstDirectory: 'series',
+  currentPage: 2,
+  isCompleted: false,
+  lastRead: null,
+};
+
+let mockPreferences: ReaderPreferences = {};
+
+vi.mock('../context', () => ({
+  useApp: () => ({
+    apiClient: null,
+    books: [book],
+    refreshData: vi.fn(),
+    updateReadingList: vi.fn(),
+    settings: { pageLayout: 'single', readingDirection: 'ltr', autoDownloadNewBooks: false },
+    updateSettings: vi.fn(),
+    shelves: [],
+    toggleShelfBook: vi.fn(),
+    newBooks: new Set(),
+    dismissNewBooks: vi.fn(),
+  }),
+}));
+
+vi.mock('../hooks', async importOriginal => ({
+  ...await importOriginal<typeof import('../hooks')>(),
+  useReaderPreferences: () => ({
+    isLoaded: true,
+    preferences: mockPreferences,
+    bookPreferences: mockPreferences,
+    directoryPreferences: {},
+    updateBookPreferences: vi.fn(),
+    updateDirectoryPreferences: vi.fn(),
+  }),
+  useBookmarks: () => ({
+    bookmarks: [],
+    toggleBookmark: vi.fn(),
+    updateBookmarkNote: vi.fn(),
+    deleteBookmark: vi.fn(),
+  }),
+  usePageTurnRecorder: vi.fn(),
+}));
+
+vi.mock('../services', () => ({
+  getPageWithCache: vi.fn(() => new Promise(() => {})),
+  updateReadingProgress: vi.fn(),
+  enqueueDownloads: vi.fn(),
+  getBookCacheStatus: vi.fn(() => Promise.resolve(null)),
+  isOnline: () => true,
+  isOnMeteredConnection: () => false,
+}));
+
+vi.mock('../services/storage', () => ({
+  FAVORITES_SHELF_ID: 'favorites',
+  getCachedPageIndices: vi.fn(() => Promise.resolve([])),
+  removeCachedBook: vi.fn(),
+}));
+
+const renderReader = () => render(
+  <MemoryRouter initialEntries={[`/reader/${encodeURIComponent(book.path)}`]}>
+    <Routes>
+      <Route path="/reader/:path/:page?" element={<ReaderPage />} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('ReaderPage', () => {
+  beforeEach(() => {
+    mockPreferences = {};
+  });
+
+  it.each<[FitMode, string]>([
+    ['fit-screen', 'fit-screen'],
+    ['fit-width', 'fit-width'],
+    ['fit-height', 'fit-height'],
+    ['original', 'fit-original'],
+    ['stretch', 'fit-stretch'],
+  ])('should apply the %s fit mode to the page container', async (fitMode, className) => {
+    mockPreferences = { fitMode };
+
+    const { container } = renderReader();
+
+    await waitFor(() => {
+      expect(container.querySelector('.page-container')?.className).toBe(`page-container ${className}`);
+    });
+  });
+});
@@ -1,46 +1,112 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo, useRef, type ChangeEvent, type MouseEvent, type SyntheticEvent } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '../context';
-import { usePinchZoom, useSwipe } from '../hooks';
+import { useBookmarks, useDownloadQueue, usePageTurnRecorder, usePinchZoom, useReaderPreferences, useSwipe } from '../hooks';
+import { BookmarksPanel, ContinuousReader, PageGrid, ShelfDialog, ThumbnailStrip } from '../components';
 import { restoreStateAfterUpdate } from '../hooks/usePWAUpdate';
 import {
   getPageWithCache,
   updateReadingProgress,
-  downloadBookForOffline,
+  enqueueDownloads,
   getBookCacheStatus,
   isOnline,
   isOnMeteredConnection,
 } from '../services';
-import { removeCachedBook } from '../services/storage';
-import type { BookResponse } from '../types';
+import { FAVORITES_SHELF_ID, getCachedPageIndices, removeCachedBook } from '../services/storage';
+import { computeSinglePages, computeSpreads, findSpreadIndex, getBookUrl, getReaderUrl, isOnShelf, parseReaderPage } from '../utils';
+import type { BookResponse, FitMode, PageLayout, ReadingDirection } from '../types';
 import './ReaderPage.css';
 
+const PAGE_LAYOUT_LABELS: Record<PageLayout, string> = {
+  'single': 'Single page',
+  'spread': 'Two pages',
+  'spread-cover-alone': 'Two pages, cover alone',
+};
+
+const NEXT_PAGE_LAYOUT: Record<PageLayout, PageLayout> = {
+  'single': 'spread',
+  'spread': 'spread-cover-alone',
+  'spread-cover-alone': 'single',
+};
+
+const FIT_MODE_LABELS: Record<FitMode, string> = {
+  'fit-screen': 'Fit screen',
+  'fit-width': 'Fit width',
+  'fit-height': 'Fit height',
+  'original': 'Original size',
+  'stretch': 'Stretch',
+};
+
+const FIT_MODE_CLASS_NAMES: Record<FitMode, string> = {
+  'fit-screen': 'fit-screen',
+  'fit-width': 'fit-width',
+  'fit-height': 'fit-height',
+  'original': 'fit-original',
+  'stretch': 'fit-stretch',
+};
+
+const ZOOM_PRESETS = [1, 1.5, 2, 2.5, 3, 4];
+const ZOOM_STEP = 1.25;
+
+const READING_DIRECTION_LABELS: Record<ReadingDirection, string> = {
+  'ltr': 'left to right',
+  'rtl': 'right to left',
+};
+
 export function ReaderPage() {
-  const { path } = useParams<{ path: string }>();
+  const { path, page: pageParam } = useParams<{ path: string; page?: string }>();
   const navigate = useNavigate();
-  const { apiClient, books, refreshData, updateReadingList, settings } = useApp();
+  const requestedPage = parseReaderPage(pageParam);
+  const {
+    apiClient,
+    books,
+    refreshData,
+    updateReadingList,
+    settings,
+    updateSettings,
+    shelves,
+    toggleShelfBook,
+    newBooks,
+    dismissNewBooks,
+  } = useApp();
 
   const [book, setBook] = useState<BookResponse | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
-  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const [pageUrls, setPageUrls] = useState<Array<{ index: number; url: string }>>([]);
+  const [widePages, setWidePages] = useState<ReadonlySet<number>>(() => new Set());
   const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
   const [isLoading, setIsLoading] = useState(true);
   const [showLoading, setShowLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
   const [cacheStatus, setCacheStatus] = useState<{
     isCached: boolean;
     isFullyDownloaded: boolean;
     cachedPages: number;
     totalPages: number;
   } | null>(null);
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [isPageGridOpen, setIsPageGridOpen] = useState(false);
+  const [isShelfDialogOpen, setIsShelfDialogOpen] = useState(false);
+  const [cachedPages, setCachedPages] = useState<ReadonlySet<number>>(() => new Set());
 
   const containerRef = useRef<HTMLDivElement>(null);
-  const previousPageUrl = useRef<string | null>(null);
+  const previousPageUrls = useRef<string[]>([]);
   const hasRestoredState = useRef(false);
-
-  const { containerRef: zoomContainerRef, scale, translateX, translateY, resetZoom, isZoomed, isInteracting } = usePinchZoom();
+  // Page opened from the URL: progress is saved only once the user reads past it
+  const deepLinkedPage = useRef<number | null>(null);
+
+  const {
+    containerRef: zoomContainerRef,
+    scale,
+    translateX,
+    translateY,
+    resetZoom,
+    setZoom,
+    zoomBy,
+    isZoomed,
+    isInteracting,
+  } = usePinchZoom({ maxScale: ZOOM_PRESETS[ZOOM_PRESETS.length - 1] });
 
   // Restore state after PWA update
   useEffect(() => {
@@ -77,9 +143,11 @@ export function ReaderPage() {
         if (!prevBook ||
             prevBook.path !== foundBook.path ||
             prevBook.pageCount !== foundBook.pageCount) {
-          // Start from saved progress or page 0
-          const startPage = foundBook.currentPage ?? 0;
-          setCurrentPage(Math.min(startPage, foundBook.pageCount - 1));
+          // Start from the requested page, saved progress or page 0
+          const startPage = Math.min(requestedPage ?? foundBook.currentPage ?? 0, foundBook.pageCount - 1);
+          deepLinkedPage.current = requestedPage !== undefined ? startPage : null;
+          setCurrentPage(startPage);
+          setWidePages(new Set());
           return foundBook;
         }
         // Update book progress properties only if they changed meaningfully
@@ -98,7 +166,7 @@ export function ReaderPage() {
       // Book not found and we have books loaded
       setError('Book not found');
     }
-  }, [path, books, navigate]);
+  }, [path, books, navigate, requestedPage]);
 
   // Delayed loading indicator
   useEffect(() => {
@@ -124,10 +192,67 @@ export function ReaderPage() {
   // Extract book properties to avoid reloading when book object reference changes
   const bookPath = book?.path;
   const bookPageCount = book?.pageCount;
+  const pageLayout = settings.pageLayout;
+
+  const {
+    isLoaded: arePreferencesLoaded,
+    preferences: readerPreferences,
+    bookPreferences,
+    directoryPreferences,
+    updateBookPreferences,
+    updateDirectoryPreferences,
+  } = useReaderPreferences(bookPath, book?.directory);
+  const { bookmarks, toggleBookmark, updateBookmarkNote, deleteBookmark } = useBookmarks(bookPath);
+  const readingDirection = readerPreferences.readingDirection ?? settings.readingDirection;
+  const isRightToLeft = readingDirection === 'rtl';
+  const isContinuous = readerPreferences.readerMode === 'continuous';
+  const fitMode = readerPreferences.fitMode ?? 'fit-screen';
+  // In these modes the page can be larger than the screen and the container scrolls
+  const isScrollableFit = fitMode === 'fit-width' || fitMode === 'fit-height' || fitMode === 'original';
+
+  // Group pages into spreads; in single page layout every spread holds one page
+  const spreads = useMemo(() => {
+    if (bookPageCount === undefined) return [];
+    if (pageLayout === 'single' || isContinuous) return computeSinglePages(bookPageCount);
+    return computeSpreads(bookPageCount, {
+      coverAlone: pageLayout === 'spread-cover-alone',
+      widePages,
+    });
+  }, [bookPageCount, pageLayout, isContinuous, widePages]);
+
+  const spreadIndex = findSpreadIndex(spreads, currentPage);
+
+  // Use a string key so that recomputing spreads doesn't reload pages that are already displayed
+  const visiblePagesKey = (spreads[spreadIndex] ?? []).join(',');
+  const visiblePages = useMemo(
+    () => visiblePagesKey ? visiblePagesKey.split(',').map(Number) : [],
+    [visiblePagesKey]
+  );
+
+  // Last page on screen, used for progress (equals currentPage on the completion screen)
+  const lastVisiblePage = visiblePages.length > 0 ? visiblePages[visiblePages.length - 1] : currentPage;
+
+  usePageTurnRecorder(bookPath, visiblePages);
 
-  // Update cache status
+  // Opening a book removes its "new" badge
+  const isNewBook = bookPath !== undefined && newBooks.has(bookPath);
   useEffect(() => {
-    if (!bookPath || bookPageCount === undefined) return;
+    if (!bookPath || !isNewBook) return;
+
+    dismissNewBooks([bookPath]).catch(err => console.error('Failed to dismiss new book:', err));
+  }, [bookPath, isNewBook, dismissNewBooks]);
+
+  // A spread is bookmarked when any of its pages is; new bookmarks go on its first page
+  const visibleBookmark = bookmarks.find(b => visiblePages.includes(b.pageIndex));
+
+  const downloadQueue = useDownloadQueue();
+  const queueItem = downloadQueue.find(item => item.path === bookPath);
+  const isDownloading = queueItem?.status === 'queued' || queueItem?.status === 'downloading';
+  const isQueued = queueItem !== undefined;
+
+  // Update cache status, again once the book leaves the download queue
+  useEffect(() => {
+    if (!bookPath || bookPageCount === undefined || isQueued) return;
 
     const updateStatus = async () => {
       const status = await getBookCacheStatus(bookPath, bookPageCount);
@@ -135,16 +260,36 @@ export function ReaderPage() {
     };
 
     updateStatus();
-  }, [bookPath, bookPageCount]);
+  }, [bookPath, bookPageCount, isQueued]);
 
-  // Load current page
+  // Refresh the offline state of pages while thumbnails are displayed (cacheStatus changes when pages are cached)
   useEffect(() => {
-    if (!bookPath || bookPageCount === undefined) return;
+    if (!bookPath || (!showThumbnails && !isPageGridOpen)) return;
+
+    let cancelled = false;
+
+    const loadCachedPages = async () => {
+      const indices = await getCachedPageIndices(bookPath);
+      if (!cancelled) {
+        setCachedPages(new Set(indices));
+      }
+    };
+
+    loadCachedPages();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookPath, showThumbnails, isPageGridOpen, cacheStatus]);
+
+  // Load current page (the continuous reader loads its own pages)
+  useEffect(() => {
+    if (!bookPath || bookPageCount === undefined || !arePreferencesLoaded || isContinuous) return;
 
     // Don't load page if we're at the completion screen
-    if (currentPage >= bookPageCount) {
+    if (visiblePages.length === 0) {
       setIsLoading(false);
-      setPageUrl(null);
+      setPageUrls([]);
       return;
     }
 
@@ -154,17 +299,19 @@ export function ReaderPage() {
       setIsLoading(true);
       setError(null);
 
-      // Revoke previous URL
-      if (previousPageUrl.current) {
-        URL.revokeObjectURL(previousPageUrl.current);
-        previousPageUrl.current = null;
+      // Revoke previous URLs
+      for (const url of previousPageUrls.current) {
+        URL.revokeObjectURL(url);
       }
+      previousPageUrls.current = [];
 
       try {
-        const url = await getPageWithCache(apiClient, bookPath, currentPage, settings.autoDownloadNewBooks);
+        const urls = await Promise.all(
+          visiblePages.map(index => getPageWithCache(apiClient, bookPath, index, settings.autoDownloadNewBooks))
+        );
         if (!cancelled) {
-          setPageUrl(url);
-          previousPageUrl.current = url;
+          setPageUrls(visiblePages.map((index, i) => ({ index, url: urls[i] })));
+          previousPageUrls.current = urls;
 
           // Update cache status after loading page (pages may be auto-cached)
           const status = await getBookCacheStatus(bookPath, bookPageCount);
@@ -187,22 +334,40 @@ export function ReaderPage() {
     return () => {
       cancelled = true;
     };
-  }, [bookPath, bookPageCount, currentPage, apiClient, settings.autoDownloadNewBooks]);
+  }, [bookPath, bookPageCount, visiblePages, arePreferencesLoaded, isContinuous, apiClient, settings.autoDownloadNewBooks]);
 
-  // Save progress when page changes
+  // Save progress when page changes (the last page of a spread counts as read)
   useEffect(() => {
     if (!bookPath || bookPageCount === undefined) return;
 
-    updateReadingProgress(apiClient, bookPath, currentPage, bookPageCount);
-  }, [bookPath, bookPageCount, currentPage, apiClient]);
+    // Opening a link to an earlier page (or browsing back from it) must not rewind the saved progress
+    if (deepLinkedPage.current !== null) {
+      if (lastVisiblePage <= deepLinkedPage.current) return;
+      deepLinkedPage.current = null;
+    }
+
+    updateReadingProgress(apiClient, bookPath, lastVisiblePage);
+  }, [bookPath, bookPageCount, lastVisiblePage, apiClient]);
+
+  // Reflect the current page in the URL so it can be shared or bookmarked in the browser
+  useEffect(() => {
+    if (!bookPath || bookPageCount === undefined) return;
+
+    const page = Math.min(currentPage, bookPageCount - 1);
+    if (page !== requestedPage) {
+      navigate(getReaderUrl(bookPath, page), { replace: true });
+    }
+  }, [bookPath, bookPageCount, currentPage, requestedPage, navigate]);
 
   // Preload next pages
   useEffect(() => {
-    if (!bookPath || bookPageCount === undefined || !apiClient) return;
+    if (!bookPath || bookPageCount === undefined || !apiClient || isContinuous) return;
+
+    const preloadCount = pageLayout === 'single' ? 3 : 4;
 
     const preloadPages = async () => {
-      for (let i = 1; i <= 3; i++) {
-        const nextPage = currentPage + i;
+      for (let i = 1; i <= preloadCount; i++) {
+        const nextPage = lastVisiblePage + i;
         if (nextPage < bookPageCount) {
           try {
             await getPageWithCache(apiClient, bookPath, nextPage, settings.autoDownloadNewBooks);
@@ -214,7 +379,7 @@ export function ReaderPage() {
     };
 
     preloadPages();
-  }, [bookPath, bookPageCount, currentPage, apiClient, settings.autoDownloadNewBooks]);
+  }, [bookPath, bookPageCount, lastVisiblePage, pageLayout, isContinuous, apiClient, settings.autoDownloadNewBooks]);
 
   const goToPage = useCallback((page: number) => {
     if (!book) return;
@@ -225,12 +390,136 @@ export function ReaderPage() {
   }, [book, resetZoom]);
 
   const goToPreviousPage = useCallback(() => {
-    goToPage(currentPage - 1);
-  }, [currentPage, goToPage]);
+    const previousSpread = spreads[spreadIndex - 1];
+    goToPage(previousSpread ? previousSpread[0] : 0);
+  }, [spreads, spreadIndex, goToPage]);
 
   const goToNextPage = useCallback(() => {
-    goToPage(currentPage + 1);
-  }, [currentPage, goToPage]);
+    // Past the last spread, go to the completion screen
+    const nextSpread = spreads[spreadIndex + 1];
+    goToPage(nextSpread ? nextSpread[0] : bookPageCount ?? 0);
+  }, [spreads, spreadIndex, bookPageCount, goToPage]);
+
+  // Value of the direction selector: "default", "book:<direction>" or "directory:<direction>"
+  const readingDirectionOverride = bookPreferences.readingDirection
+    ? `book:${bookPreferences.readingDirection}`
+    : directoryPreferences.readingDirection
+      ? `directory:${directoryPreferences.readingDirection}`
+      : 'default';
+
+  const changeReadingDirection = useCallback(async (event: ChangeEvent<HTMLSelectElement>) => {
+    const [scope, direction] = event.target.value.split(':') as [string, ReadingDirection | undefined];
+
+    try {
+      if (scope === 'book') {
+        await updateBookPreferences({ readingDirection: direction });
+      } else if (scope === 'directory') {
+        await updateBookPreferences({ readingDirection: undefined });
+        await updateDirectoryPreferences({ readingDirection: direction });
+      } else {
+        await updateBookPreferences({ readingDirection: undefined });
+        await updateDirectoryPreferences({ readingDirection: undefined });
+      }
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to save reading direction: ${errMsg}`);
+    }
+  }, [updateBookPreferences, updateDirectoryPreferences]);
+
+  // In fullscreen, tapping the third of the screen where the previous page lies goes back,
+  // anywhere else goes forward
+  const handlePageTap = useCallback((event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const isBackwardZone = isRightToLeft ? x > (rect.width * 2) / 3 : x < rect.width / 3;
+
+    if (isBackwardZone) {
+      goToPreviousPage();
+    } else {
+      goToNextPage();
+    }
+  }, [isRightToLeft, goToPreviousPage, goToNextPage]);
+
+  const toggleContinuousMode = useCallback(async () => {
+    try {
+      await updateBookPreferences({ readerMode: isContinuous ? undefined : 'continuous' });
+      resetZoom();
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to change reader mode: ${errMsg}`);
+    }
+  }, [isContinuous, updateBookPreferences, resetZoom]);
+
+  const changeFitMode = useCallback(async (event: ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as FitMode;
+
+    try {
+      // fit-screen is the default, don't store it
+      await updateBookPreferences({ fitMode: value === 'fit-screen' ? undefined : value });
+      resetZoom();
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to change fit mode: ${errMsg}`);
+    }
+  }, [updateBookPreferences, resetZoom]);
+
+  const toggleCurrentBookmark = useCallback(async () => {
+    const pageIndex = visibleBookmark?.pageIndex ?? visiblePages[0];
+    if (pageIndex === undefined) return;
+
+    try {
+      await toggleBookmark(pageIndex);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to update bookmark: ${errMsg}`);
+    }
+  }, [visibleBookmark, visiblePages, toggleBookmark]);
+
+  const handleBookmarkNoteChange = useCallback(async (pageIndex: number, note: string) => {
+    try {
+      await updateBookmarkNote(pageIndex, note);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to save bookmark note: ${errMsg}`);
+    }
+  }, [updateBookmarkNote]);
+
+  const handleBookmarkRemove = useCallback(async (pageIndex: number) => {
+    try {
+      await deleteBookmark(pageIndex);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to remove bookmark: ${errMsg}`);
+    }
+  }, [deleteBookmark]);
+
+  const favorites = shelves.find(shelf => shelf.id === FAVORITES_SHELF_ID);
+  const isFavorite = bookPath !== undefined && favorites !== undefined && isOnShelf(favorites, bookPath);
+
+  const toggleFavorite = useCallback(async () => {
+    if (!bookPath) return;
+
+    try {
+      await toggleShelfBook(FAVORITES_SHELF_ID, bookPath);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(`Failed to update favorites: ${errMsg}`);
+    }
+  }, [bookPath, toggleShelfBook]);
+
+  const closeShelfDialog = useCallback(() => setIsShelfDialogOpen(false), []);
+
+  const cyclePageLayout = useCallback(() => {
+    updateSettings({ ...settings, pageLayout: NEXT_PAGE_LAYOUT[settings.pageLayout] });
+  }, [settings, updateSettings]);
+
+  // Double-width pages (landscape aspect ratio) are displayed alone in spread layouts
+  const handlePageImageLoad = useCallback((pageIndex: number, event: SyntheticEvent<HTMLImageElement>) => {
+    const image = event.currentTarget;
+    if (image.naturalWidth > image.naturalHeight) {
+      setWidePages(previous => previous.has(pageIndex) ? previous : new Set(previous).add(pageIndex));
+    }
+  }, []);
 
   const toggleFullscreen = useCallback(() => {
     if (isFullscreen) {
@@ -282,20 +571,11 @@ export function ReaderPage() {
       return;
     }
 
-    setIsDownloading(true);
-    setDownloadProgress(0);
-
     try {
-      await downloadBookForOffline(apiClient, book, (downloaded, total) => {
-        setDownloadProgress((downloaded / total) * 100);
-      });
-      const status = await getBookCacheStatus(book.path, book.pageCount);
-      setCacheStatus(status);
+      await enqueueDownloads([book], { prioritize: true });
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
       setError(`Failed to download book: ${errMsg}`);
-    } finally {
-      setIsDownloading(false);
     }
   }, [book, apiClient]);
 
@@ -314,28 +594,64 @@ export function ReaderPage() {
     }
   }, [book, refreshData]);
 
-  // Swipe handlers
+  // Swipe handlers (swiping towards the start of the reading direction turns the page)
   const { handleTouchStart, handleTouchMove, handleTouchEnd } = useSwipe({
     onSwipeLeft: () => {
-      if (!isZoomed && !isInteracting) goToNextPage();
+      if (isZoomed || isInteracting) return;
+      if (isRightToLeft) {
+        goToPreviousPage();
+      } else {
+        goToNextPage();
+      }
     },
     onSwipeRight: () => {
-      if (!isZoomed && !isInteracting) goToPreviousPage();
+      if (isZoomed || isInteracting) return;
+      if (isRightToLeft) {
+        goToNextPage();
+      } else {
+        goToPreviousPage();
+      }
     },
-    onSwipeUp: exitFullscreen,
-    onSwipeDown: exitFullscreen,
+    // Vertical swipes scroll the page when it is larger than the screen
+    onSwipeUp: isScrollableFit ? undefined : exitFullscreen,
+    onSwipeDown: isScrollableFit ? undefined : exitFullscreen,
   });
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isPageGridOpen) {
+        if (e.key === 'Escape' || e.key === 'g') {
+          e.preventDefault();
+          setIsPageGridOpen(false);
+        }
+        return;
+      }
+
+      // Let the browser scroll natively in continuous mode
+      if (isContinuous && e.key !== 'Escape' && e.key !== 'f' && e.key !== 'g' && e.key !== 'b') return;
+
       switch (e.key) {
         case 'ArrowRight':
+          e.preventDefault();
+          if (isRightToLeft) {
+            goToPreviousPage();
+          } else {
+            goToNextPage();
+          }
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          if (isRightToLeft) {
+            goToNextPage();
+          } else {
+            goToPreviousPage();
+          }
+          break;
         case 'PageDown':
           e.preventDefault();
           goToNextPage();
           break;
-        case 'ArrowLeft':
         case 'PageUp':
           e.preventDefault();
           goToPreviousPage();
@@ -348,12 +664,33 @@ export function ReaderPage() {
           e.preventDefault();
           toggleFullscreen();
           break;
+        case 'g':
+          e.preventDefault();
+          setIsPageGridOpen(true);
+          break;
+        case 'b':
+          e.preventDefault();
+          toggleCurrentBookmark();
+          break;
+        case '+':
+        case '=':
+          e.preventDefault();
+          zoomBy(ZOOM_STEP);
+          break;
+        case '-':
+          e.preventDefault();
+          zoomBy(1 / ZOOM_STEP);
+          break;
+        case '0':
+          e.preventDefault();
+          resetZoom();
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [goToNextPage, goToPreviousPage, exitFullscreen, toggleFullscreen]);
+  }, [isPageGridOpen, isContinuous, isRightToLeft, goToNextPage, goToPreviousPage, exitFullscreen, toggleFullscreen, zoomBy, resetZoom, toggleCurrentBookmark]);
 
   // Fullscreen change listener
   useEffect(() => {
@@ -366,8 +703,9 @@ export function ReaderPage() {
   }, []);
 
   // Touch handlers for swipe - only enable when not zoomed and attach to outer container
+  // (disabled in continuous mode where vertical swipes scroll, and while the page grid is open)
   useEffect(() => {
-    if (isZoomed || isInteracting) return;
+    if (isZoomed || isInteracting || isContinuous || isPageGridOpen) return;
 
     const container = containerRef.current;
     if (!container) return;
@@ -381,7 +719,7 @@ export function ReaderPage() {
       container.removeEventListener('touchmove', handleTouchMove);
       container.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [handleTouchStart, handleTouchMove, handleTouchEnd, isZoomed, isInteracting]);
+  }, [handleTouchStart, handleTouchMove, handleTouchEnd, isZoomed, isInteracting, isContinuous, isPageGridOpen]);
 
   if (!book) {
     return (
@@ -394,11 +732,22 @@ export function ReaderPage() {
   }
 
   const isAtEnd = currentPage >= book.pageCount;
-  const progressPercent = ((currentPage + 1) / book.pageCount) * 100;
+  const progressPercent = ((lastVisiblePage + 1) / book.pageCount) * 100;
+  const pageLabel = visiblePages.length > 0 ? visiblePages.map(index => index + 1).join('-') : `${currentPage + 1}`;
+
+  const completedButton = (
+    <div className="reader-completed">
+      <button className="mark-completed-button" onClick={markAsCompleted}>
+        Mark as completed
+        <br />
+        <span className="completed-title">{book.title}</span>
+      </button>
+    </div>
+  );
 
   return (
     <div
-      className={`reader-page ${isFullscreen ? 'fullscreen' : ''} ${settings.largeFullscreenProgressBar ? 'large-progress' : ''}`}
+      className={`reader-page ${isFullscreen ? 'fullscreen' : ''} ${settings.largeFullscreenProgressBar ? 'large-progress' : ''} ${isRightToLeft ? 'rtl' : ''}`}
       ref={containerRef}
     >
       {!isFullscreen && (
@@ -406,7 +755,9 @@ export function ReaderPage() {
           <button className="back-button" onClick={() => navigate('/')}>
             ← Back
           </button>
-          <h1 className="reader-title">{book.title}</h1>
+          <h1 className="reader-title">
+            <Link to={getBookUrl(book.path)} title="Details">{book.title}</Link>
+          </h1>
         </div>
       )}
 
@@ -414,19 +765,19 @@ export function ReaderPage() {
 
       {!isFullscreen && (
         <div className="reader-controls">
-          <button onClick={() => goToPage(0)} disabled={currentPage === 0}>
+          <button onClick={() => goToPage(0)} disabled={spreadIndex === 0}>
             First
           </button>
-          <button onClick={goToPreviousPage} disabled={currentPage === 0}>
+          <button onClick={goToPreviousPage} disabled={spreadIndex === 0}>
             Previous
           </button>
           <span className="page-info">
-            {currentPage + 1} / {book.pageCount}
+            {pageLabel} / {book.pageCount}
           </span>
           <button onClick={goToNextPage} disabled={isAtEnd}>
             Next
           </button>
-          <button onClick={() => goToPage(book.pageCount - 1)} disabled={currentPage === book.pageCount - 1}>
+          <button onClick={() => goToPage(book.pageCount - 1)} disabled={visiblePages.includes(book.pageCount - 1)}>
             Last
           </button>
         </div>
@@ -437,12 +788,91 @@ export function ReaderPage() {
           <button onClick={toggleFullscreen}>
             Fullscreen
           </button>
+          <button
+            onClick={toggleCurrentBookmark}
+            disabled={visiblePages.length === 0}
+            className={visibleBookmark ? 'bookmarked' : ''}
+            title={visibleBookmark ? 'Remove bookmark (B)' : 'Bookmark this page (B)'}
+          >
+            {visibleBookmark ? '★' : '☆'}
+          </button>
+          <button onClick={() => setShowBookmarks(!showBookmarks)}>
+            Bookmarks{bookmarks.length > 0 ? ` (${bookmarks.length})` : ''}
+          </button>
+          <button
+            onClick={toggleFavorite}
+            className={isFavorite ? 'favorite' : ''}
+            title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            {isFavorite ? '♥' : '♡'}
+          </button>
+          <button onClick={() => setIsShelfDialogOpen(true)}>
+            Shelves
+          </button>
+          <button onClick={() => setShowThumbnails(!showThumbnails)}>
+            {showThumbnails ? 'Hide thumbnails' : 'Thumbnails'}
+          </button>
+          <button onClick={() => setIsPageGridOpen(true)} title="All pages (G)">
+            All pages
+          </button>
+          <button onClick={toggleContinuousMode}>
+            {isContinuous ? 'Paged mode' : 'Vertical scroll'}
+          </button>
+          {!isContinuous && (
+            <>
+              <button onClick={cyclePageLayout} title="Change page layout">
+                {PAGE_LAYOUT_LABELS[pageLayout]}
+              </button>
+              <select value={fitMode} onChange={changeFitMode} title="Page fit">
+                {(Object.keys(FIT_MODE_LABELS) as FitMode[]).map(mode => (
+                  <option key={mode} value={mode}>{FIT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <div className="zoom-controls">
+                <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={!isZoomed} aria-label="Zoom out">
+                  −
+                </button>
+                <select
+                  value={ZOOM_PRESETS.includes(scale) ? String(scale) : 'custom'}
+                  onChange={(e) => setZoom(Number(e.target.value))}
+                  title="Zoom"
+                >
+                  {!ZOOM_PRESETS.includes(scale) && (
+                    <option value="custom" disabled>{Math.round(scale * 100)}%</option>
+                  )}
+                  {ZOOM_PRESETS.map(preset => (
+                    <option key={preset} value={preset}>{preset * 100}%</option>
+                  ))}
+                </select>
+                <button onClick={() => zoomBy(ZOOM_STEP)} disabled={scale >= ZOOM_PRESETS[ZOOM_PRESETS.length - 1]} aria-label="Zoom in">
+                  +
+                </button>
+              </div>
+            </>
+          )}
+          <select
+            value={readingDirectionOverride}
+            onChange={changeReadingDirection}
+            title="Reading direction"
+          >
+            <option value="default">Default ({READING_DIRECTION_LABELS[settings.readingDirection]})</option>
+            <option value="book:ltr">This book: {READING_DIRECTION_LABELS.ltr}</option>
+            <option value="book:rtl">This book: {READING_DIRECTION_LABELS.rtl}</option>
+            {book.directory && (
+              <>
+                <option value="directory:ltr">This series: {READING_DIRECTION_LABELS.ltr}</option>
+                <option value="directory:rtl">This series: {READING_DIRECTION_LABELS.rtl}</option>
+              </>
+            )}
+          </select>
           <button onClick={removeFromReadingList}>
             Remove from list
           </button>
           {isOnline() && !cacheStatus?.isFullyDownloaded && (
             <button onClick={downloadBook} disabled={isDownloading}>
-              {isDownloading ? `Downloading ${downloadProgress.toFixed(0)}%` : 'Download'}
+              {queueItem?.status === 'downloading'
+                ? `Downloading ${Math.round((queueItem.downloadedPages / Math.max(1, queueItem.book.pageCount)) * 100)}%`
+                : queueItem?.status === 'queued' ? 'Queued' : 'Download'}
             </button>
           )}
           {cacheStatus?.isCached && (
@@ -453,12 +883,50 @@ export function ReaderPage() {
         </div>
       )}
 
+      {isShelfDialogOpen && (
+        <ShelfDialog bookPath={book.path} bookTitle={book.title} onClose={closeShelfDialog} />
+      )}
+
+      {!isFullscreen && showBookmarks && (
+        <BookmarksPanel
+          bookmarks={bookmarks}
+          currentPage={visibleBookmark?.pageIndex ?? currentPage}
+          onSelect={goToPage}
+          onUpdateNote={handleBookmarkNoteChange}
+          onRemove={handleBookmarkRemove}
+        />
+      )}
+
+      {!isFullscreen && showThumbnails && (
+        <ThumbnailStrip
+          bookPath={book.path}
+          pageCount={book.pageCount}
+          currentPage={currentPage}
+          cachedPages={cachedPages}
+          isRightToLeft={isRightToLeft}
+          onSelect={goToPage}
+        />
+      )}
+
+      {isPageGridOpen && (
+        <PageGrid
+          bookPath={book.path}
+          title={book.title}
+          pageCount={book.pageCount}
+          currentPage={currentPage}
+          cachedPages={cachedPages}
+          isRightToLeft={isRightToLeft}
+          onSelect={goToPage}
+          onClose={() => setIsPageGridOpen(false)}
+        />
+      )}
+
       <div className="reader-viewer">
         <div className="reading-progress-container">
           <div
             className="reading-progress"
             role="progressbar"
-            aria-valuenow={currentPage + 1}
+            aria-valuenow={lastVisiblePage + 1}
             aria-valuemin={1}
             aria-valuemax={book.pageCount}
             title={`${progressPercent.toFixed(0)}%`}
@@ -469,38 +937,52 @@ export function ReaderPage() {
             />
             {settings.largeFullscreenProgressBar && isFullscreen && (
               <div className="reading-progress-text">
-                {currentPage + 1} / {book.pageCount}
+                {pageLabel} / {book.pageCount}
               </div>
             )}
           </div>
         </div>
 
-        {isAtEnd ? (
-          <div className="reader-completed">
-            <button className="mark-completed-button" onClick={markAsCompleted}>
-              Mark as completed
-              <br />
-              <span className="completed-title">{book.title}</span>
-            </button>
-          </div>
+        {isContinuous ? (
+          <ContinuousReader
+            key={book.path}
+            apiClient={apiClient}
+            bookPath={book.path}
+            pageCount={book.pageCount}
+            page={currentPage}
+            autoCachePages={settings.autoDownloadNewBooks}
+            onPageChange={setCurrentPage}
+          >
+            {completedButton}
+          </ContinuousReader>
+        ) : isAtEnd ? (
+          completedButton
         ) : (
           <div
-            className="page-container"
+            className={`page-container ${FIT_MODE_CLASS_NAMES[fitMode]}`}
             ref={zoomContainerRef}
-            onClick={isFullscreen ? goToNextPage : undefined}
+            onClick={isFullscreen ? handlePageTap : undefined}
           >
             {showLoading && <div className="page-loading">Loading page...</div>}
-            {!isLoading && pageUrl && (
-              <img
-                src={pageUrl}
-                alt={`Page ${currentPage + 1}`}
-                className="page-image"
-                draggable={false}
+            {!isLoading && pageUrls.length > 0 && (
+              <div
+                className={`page-spread ${pageUrls.length > 1 ? 'double' : ''}`}
                 onDoubleClick={!isFullscreen ? toggleFullscreen : undefined}
                 style={{
                   transform: `scale(${scale}) translate(${translateX}px, ${translateY}px)`,
                 }}
-              />
+              >
+                {pageUrls.map(({ index, url }) => (
+                  <img
+                    key={index}
+                    src={url}
+                    alt={`Page ${index + 1}`}
+                    className="page-image"
+                    draggable={false}
+                    onLoad={(event) => handlePageImageLoad(index, event)}
+                  />
+                ))}
+              </div>
             )}
           </div>
         )}
@@ -9,9 +9,12 @@ import {
   clearAllCachedCovers,
   clearAllCachedBooks,
   getCacheSizeEstimates,
+  getCacheUsage,
+  setBookPinned,
 } from '../services/storage';
-import { formatFileSize } from '../utils';
-import type { AppSettings, BookResponse } from '../types';
+import { enforceStorageBudget } from '../services';
+import { formatFileSize, getTotalCacheSize } from '../utils';
+import type { AppSettings, BookCacheUsage, BookResponse, PageLayout, ReadingDirection } from '../types';
 import './SettingsPage.css';
 
 export function SettingsPage() {
@@ -25,6 +28,7 @@ export function SettingsPage() {
   const [cachedBooks, setCachedBooks] = useState<Array<{ path: string; book: BookResponse; fullyDownloaded: boolean }>>([]);
   const [cachedPageCounts, setCachedPageCounts] = useState<Map<string, number>>(new Map());
   const [cacheStats, setCacheStats] = useState<{ books: number; covers: number; pages: number; totalSizeBytes?: number } | null>(null);
+  const [cacheUsage, setCacheUsage] = useState<Map<string, BookCacheUsage>>(new Map());
   const [serverVersion, setServerVersion] = useState<string | null>(null);
   const clientVersion = import.meta.env.VITE_APP_VERSION || 'dev';
 
@@ -63,6 +67,9 @@ export function SettingsPage() {
         }
       }
       setCachedPageCounts(counts);
+
+      const usage = await getCacheUsage();
+      setCacheUsage(new Map(usage.map(u => [u.path, u])));
       
       // Load cache statistics
       const stats = await getCacheSizeEstimates();
@@ -90,6 +97,13 @@ export function SettingsPage() {
     try {
       await updateSettings(formData);
       setMessage('Settings saved successfully');
+
+      // Apply a lower budget right away
+      const evictedPaths = new Set(await enforceStorageBudget());
+      if (evictedPaths.size > 0) {
+        setCachedBooks(books => books.filter(b => !evictedPaths.has(b.path)));
+        setCacheUsage(usage => new Map([...usage].filter(([path]) => !evictedPaths.has(path))));
+      }
     } catch (err) {
       setMessage(err instanceof Error ? err.message : 'Failed to save settings');
     } finally {
@@ -120,12 +134,33 @@ export function SettingsPage() {
     try {
       await removeCachedBook(path);
       setCachedBooks(books => books.filter(b => b.path !== path));
+      setCacheUsage(usage => new Map([...usage].filter(([p]) => p !== path)));
       setMessage('Book removed from cache');
     } catch (err) {
       setMessage(err instanceof Error ? err.message : 'Failed to remove from cache');
     }
   };
 
+  const handleTogglePinned = async (path: string) => {
+    const pinned = !cacheUsage.get(path)?.pinned;
+    try {
+      await setBookPinned(path, pinned);
+      setCacheUsage(usage => {
+        const next = new Map(usage);
+        const current = usage.get(path);
+        next.set(path, {
+          path,
+          sizeBytes: current?.sizeBytes ?? 0,
+          lastAccessedAt: current?.lastAccessedAt ?? new Date().toISOString(),
+          pinned,
+        });
+        return next;
+      });
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to pin book');
+    }
+  };
+
   const handleClearAllCache = async () => {
     if (!confirm('Are you sure you want to clear all cached books?')) {
       return;
@@ -136,6 +171,8 @@ export function SettingsPage() {
         await removeCachedBook(book.path);
       }
       setCachedBooks([]);
+      const usage = await getCacheUsage();
+      setCacheUsage(new Map(usage.map(u => [u.path, u])));
       const stats = await getCacheSizeEstimates();
       setCacheStats(stats);
       setMessage('All cached books removed');
@@ -151,6 +188,8 @@ export function SettingsPage() {
 
     try {
       await clearAllCachedPages();
+      const usage = await getCacheUsage();
+      setCacheUsage(new Map(usage.map(u => [u.path, u])));
       const stats = await getCacheSizeEstimates();
       setCacheStats(stats);
       setMessage('All cached pages removed');
@@ -183,6 +222,7 @@ export function SettingsPage() {
       await clearAllCachedBooks();
       setCachedBooks([]);
       setCachedPageCounts(new Map());
+      setCacheUsage(new Map());
       const stats = await getCacheSizeEstimates();
       setCacheStats(stats);
       setMessage('All cached data removed');
@@ -244,6 +284,46 @@ export function SettingsPage() {
           </p>
         </div>
 
+        <div className="form-group checkbox-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={formData.smartOffline}
+              onChange={(e) => setFormData({ ...formData, smartOffline: e.target.checked })}
+              disabled={formData.autoDownloadNewBooks}
+            />
+            Smart offline
+          </label>
+          <p className="form-help">
+            Keep the next pages of the books in progress and the next books to read downloaded, and remove the books once completed (unless pinned). Not used when downloading the entire catalog.
+          </p>
+        </div>
+
+        {formData.smartOffline && !formData.autoDownloadNewBooks && (
+          <div className="form-group-row">
+            <div className="form-group">
+              <label htmlFor="smartOfflinePageCount">Pages ahead of each book in progress</label>
+              <input
+                type="number"
+                id="smartOfflinePageCount"
+                min={0}
+                value={formData.smartOfflinePageCount}
+                onChange={(e) => setFormData({ ...formData, smartOfflinePageCount: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="smartOfflineBookCount">Next books to read</label>
+              <input
+                type="number"
+                id="smartOfflineBookCount"
+                min={0}
+                value={formData.smartOfflineBookCount}
+                onChange={(e) => setFormData({ ...formData, smartOfflineBookCount: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+        )}
+
         <div className="form-group checkbox-group">
           <label>
             <input
@@ -258,6 +338,53 @@ export function SettingsPage() {
           </p>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="pageLayout">Page layout</label>
+          <select
+            id="pageLayout"
+            value={formData.pageLayout}
+            onChange={(e) => setFormData({ ...formData, pageLayout: e.target.value as PageLayout })}
+          >
+            <option value="single">Single page</option>
+            <option value="spread">Two-page spread</option>
+            <option value="spread-cover-alone">Two-page spread, cover alone</option>
+          </select>
+          <p className="form-help">
+            Show pages side by side on large screens. Double-width pages are always shown alone.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="readingDirection">Reading direction</label>
+          <select
+            id="readingDirection"
+            value={formData.readingDirection}
+            onChange={(e) => setFormData({ ...formData, readingDirection: e.target.value as ReadingDirection })}
+          >
+            <option value="ltr">Left to right</option>
+            <option value="rtl">Right to left (manga)</option>
+          </select>
+          <p className="form-help">
+            Default direction for swipes, arrow keys and tap zones. It can be overridden for a book or a series from the reader.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="storageBudgetMB">Storage budget (MB)</label>
+          <input
+            type="number"
+            id="storageBudgetMB"
+            min={0}
+            step={256}
+            value={formData.storageBudgetMB}
+            disabled={formData.autoDownloadNewBooks}
+            onChange={(e) => setFormData({ ...formData, storageBudgetMB: Math.max(0, Number(e.target.value) || 0) })}
+          />
+          <p className="form-help">
+            Maximum space used by cached pages. The least recently read books are removed first; books in progress and pinned books are kept. 0 for no limit. Not applied while new books are downloaded automatically, as the whole catalog is kept offline.
+          </p>
+        </div>
+
         <button type="submit" className="save-button" disabled={isSaving}>
           {isSaving ? 'Saving...' : 'Save Settings'}
         </button>
@@ -265,13 +392,22 @@ export function SettingsPage() {
 
       <section className="settings-section">
         <h2>Server Actions</h2>
-        <button
-          onClick={handleRefreshCatalog}
-          disabled={isReindexing || !online}
-          className="action-button"
-        >
-          {isReindexing ? 'Refreshing...' : 'Refresh Catalog'}
-        </button>
+        <div className="server-actions">
+          <button
+            onClick={handleRefreshCatalog}
+            disabled={isReindexing || !online}
+            className="action-button"
+          >
+            {isReindexing ? 'Refreshing...' : 'Refresh Catalog'}
+          </button>
+          <button
+            onClick={() => navigate('/indexing')}
+            disabled={!online}
+            className="action-button"
+          >
+            Indexing Status
+          </button>
+        </div>
         {!online && <p className="form-help">Catalog refresh not available while offline</p>}
       </section>
 
@@ -290,6 +426,10 @@ export function SettingsPage() {
               Books: {cacheStats.books} • Covers: {cacheStats.covers} • Pages: {cacheStats.pages}
               {cacheStats.totalSizeBytes !== undefined && ` • Total: ${formatFileSize(cacheStats.totalSizeBytes)}`}
             </p>
+            <p className="form-help">
+              Pages: {formatFileSize(getTotalCacheSize([...cacheUsage.values()]))}
+              {settings.storageBudgetMB > 0 && ` of ${formatFileSize(settings.storageBudgetMB * 1024 * 1024)}`}
+            </p>
           </div>
         )}
         <div className="cache-actions">
@@ -320,6 +460,7 @@ export function SettingsPage() {
             <ul className="cached-books-list">
               {cachedBooks.map(({ path, book, fullyDownloaded }) => {
                 const cachedPages = cachedPageCounts.get(path) || 0;
+                const usage = cacheUsage.get(path);
                 return (
                   <li key={path} className="cached-book-item">
                     <div className="cached-book-info">
@@ -327,14 +468,24 @@ export function SettingsPage() {
                       <span className="cached-book-meta">
                         {formatFileSize(book.fileSize)} • {book.pageCount} pages
                         {fullyDownloaded ? ' • ✓ Complete' : ` • ${cachedPages}/${book.pageCount} cached`}
+                        {usage && ` • ${formatFileSize(usage.sizeBytes)} used`}
                       </span>
                     </div>
-                    <button
-                      onClick={() => handleRemoveFromCache(path)}
-                      className="remove-cache-button"
-                    >
-                      Remove
-                    </button>
+                    <div className="cached-book-buttons">
+                      <button
+                        onClick={() => handleTogglePinned(path)}
+                        className={`pin-cache-button ${usage?.pinned ? 'pinned' : ''}`}
+                        title="Pinned books are never removed to fit in the storage budget"
+                      >
+                        {usage?.pinned ? 'Unpin' : 'Pin'}
+                      </button>
+                      <button
+                        onClick={() => handleRemoveFromCache(path)}
+                        className="remove-cache-button"
+                      >
+                        Remove
+                      </button>
+                    </div>
                   </li>
                 );
               })}
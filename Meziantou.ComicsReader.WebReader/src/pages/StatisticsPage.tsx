@@ -0,0 +1,212 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '../context';
+import { getReadingHistoryWithCache } from '../services';
+import { getPageTurns } from '../services/storage';
+import {
+  buildHeatmap,
+  computeAverageTimePerPage,
+  computeDailyActivity,
+  computeStreaks,
+  computeTotalPagesRead,
+  countByMonth,
+  countByWeek,
+  formatDuration,
+  toDateKey,
+} from '../utils';
+import type { PageTurnEvent, ReadingHistoryItemResponse } from '../types';
+import './StatisticsPage.css';
+
+const CHART_WEEKS = 12;
+const CHART_MONTHS = 12;
+const HEATMAP_WEEKS = 53;
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+interface ChartBar {
+  key: string;
+  label: string;
+  count: number;
+}
+
+function BarChart({ bars }: { bars: ChartBar[] }) {
+  const max = Math.max(1, ...bars.map(bar => bar.count));
+
+  return (
+    <div className="bar-chart">
+      {bars.map(bar => (
+        <div key={bar.key} className="bar-chart-column" title={`${bar.label}: ${bar.count}`}>
+          <span className="bar-chart-value">{bar.count > 0 ? bar.count : ''}</span>
+          <div className="bar-chart-track">
+            <div className="bar-chart-bar" style={{ height: `${(bar.count / max) * 100}%` }} />
+          </div>
+          <span className="bar-chart-label">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Heatmap intensity from 0 (no activity) to 4, relative to the busiest day
+function getHeatmapLevel(count: number, max: number): number {
+  if (count === 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+}
+
+export function StatisticsPage() {
+  const navigate = useNavigate();
+  const { apiClient, books } = useApp();
+
+  const [pageTurns, setPageTurns] = useState<PageTurnEvent[] | null>(null);
+  const [history, setHistory] = useState<ReadingHistoryItemResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStatistics = async () => {
+      try {
+        const [events, historyItems] = await Promise.all([
+          getPageTurns(),
+          getReadingHistoryWithCache(apiClient),
+        ]);
+        if (!cancelled) {
+          setPageTurns(events);
+          setHistory(historyItems);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errMsg = err instanceof Error ? err.message : String(err);
+          setError(`Failed to load statistics: ${errMsg}`);
+        }
+      }
+    };
+
+    loadStatistics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient]);
+
+  // Completion dates from the history, plus books completed offline that the history doesn't know yet
+  const completionDates = useMemo(() => {
+    const historyPaths = new Set(history.map(item => item.bookPath));
+    const dates = history.map(item => item.completedAt);
+    for (const book of books) {
+      if (book.isCompleted && book.lastRead && !historyPaths.has(book.path)) {
+        dates.push(book.lastRead);
+      }
+    }
+    return dates;
+  }, [history, books]);
+
+  const statistics = useMemo(() => {
+    const now = new Date();
+    const activity = computeDailyActivity(pageTurns ?? []);
+    const readingDays = new Set(activity.keys());
+    for (const date of completionDates) {
+      readingDays.add(toDateKey(new Date(date)));
+    }
+
+    return {
+      totalPagesRead: computeTotalPagesRead(books),
+      averageTimePerPage: computeAverageTimePerPage(pageTurns ?? []),
+      streaks: computeStreaks(readingDays, now),
+      weeks: countByWeek(completionDates, CHART_WEEKS, now).map(({ start, count }) => ({
+        key: start,
+        label: new Date(`${start}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+        count,
+      })),
+      months: countByMonth(completionDates, CHART_MONTHS, now).map(({ month, count }) => ({
+        key: month,
+        label: new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short' }),
+        count,
+      })),
+      heatmap: buildHeatmap(activity, HEATMAP_WEEKS, now),
+      maxDailyPages: Math.max(1, ...activity.values()),
+    };
+  }, [books, pageTurns, completionDates]);
+
+  return (
+    <div className="statistics-page">
+      <div className="statistics-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back
+        </button>
+        <h1>Statistics</h1>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {pageTurns === null && !error ? (
+        <div className="loading">Loading...</div>
+      ) : (
+        <>
+          <section className="statistics-cards">
+            <div className="statistics-card">
+              <span className="statistics-card-value">{statistics.totalPagesRead.toLocaleString()}</span>
+              <span className="statistics-card-label">Pages read</span>
+            </div>
+            <div className="statistics-card">
+              <span className="statistics-card-value">{completionDates.length.toLocaleString()}</span>
+              <span className="statistics-card-label">Books completed</span>
+            </div>
+            <div className="statistics-card">
+              <span className="statistics-card-value">
+                {statistics.averageTimePerPage !== null ? formatDuration(statistics.averageTimePerPage) : '–'}
+              </span>
+              <span className="statistics-card-label">Average time per page</span>
+            </div>
+            <div className="statistics-card">
+              <span className="statistics-card-value">{statistics.streaks.current}</span>
+              <span className="statistics-card-label">Current streak (days)</span>
+            </div>
+            <div className="statistics-card">
+              <span className="statistics-card-value">{statistics.streaks.longest}</span>
+              <span className="statistics-card-label">Longest streak (days)</span>
+            </div>
+          </section>
+
+          <section className="statistics-section">
+            <h2>Reading activity</h2>
+            <div className="heatmap-container">
+              <div className="heatmap">
+                <div className="heatmap-weekdays">
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <span key={index} className="heatmap-weekday">{label}</span>
+                  ))}
+                </div>
+                {statistics.heatmap.map((week, weekIndex) => (
+                  <div key={weekIndex} className="heatmap-week">
+                    {week.map((cell, dayIndex) => cell ? (
+                      <span
+                        key={cell.date}
+                        className={`heatmap-cell level-${getHeatmapLevel(cell.count, statistics.maxDailyPages)}`}
+                        title={`${new Date(`${cell.date}T00:00:00`).toLocaleDateString()}: ${cell.count} pages`}
+                      />
+                    ) : (
+                      <span key={dayIndex} className="heatmap-cell empty" />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="statistics-help">
+              Pages read per day on this device.
+            </p>
+          </section>
+
+          <section className="statistics-section">
+            <h2>Books completed per week</h2>
+            <BarChart bars={statistics.weeks} />
+          </section>
+
+          <section className="statistics-section">
+            <h2>Books completed per month</h2>
+            <BarChart bars={statistics.months} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,9 @@
 export { HomePage } from './HomePage';
 export { ReaderPage } from './ReaderPage';
 export { SettingsPage } from './SettingsPage';
+export { BookmarksPage } from './BookmarksPage';
+export { HistoryPage } from './HistoryPage';
+export { IndexingPage } from './IndexingPage';
+export { StatisticsPage } from './StatisticsPage';
+export { BookDetailsPage } from './BookDetailsPage';
+export { DownloadsPage } from './DownloadsPage';
@@ -182,6 +182,30 @@ describe('ApiClient', () => {
     });
   });
 
+  describe('getReadingHistory', () => {
+    it('should fetch reading history', async () => {
+      const mockResponse = {
+        totalCount: 1,
+        items: [
+          { bookPath: 'book1', completedAt: '2025-01-01T10:00:00Z', bookTitle: 'Book 1' },
+        ],
+      };
+
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify(mockResponse)),
+      }) as unknown as typeof fetch;
+
+      const result = await client.getReadingHistory();
+
+      expect(fetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v1/history`,
+        expect.anything()
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
   describe('triggerReindex', () => {
     it('should send POST request to trigger reindex', async () => {
       globalThis.fetch = vi.fn().mockResolvedValue({
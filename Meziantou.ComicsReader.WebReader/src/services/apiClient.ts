@@ -4,6 +4,7 @@ import type {
   PagesResponse,
   ReadingListResponse,
   ReadingListItemResponse,
+  ReadingHistoryResponse,
   IndexingStatusResponse,
   UpdateReadingProgressRequest,
   VersionResponse,
@@ -80,7 +81,7 @@ export class ApiClient {
     return url;
   }
 
-  async getPage(path: string, pageIndex: number): Promise<Blob> {
+  async getPage(path: string, pageIndex: number, signal?: AbortSignal): Promise<Blob> {
     const url = `${this.baseUrl}/api/v1/books/${encodeURIComponent(path)}/pages/${pageIndex}`;
     const headers = new Headers();
 
@@ -88,7 +89,7 @@ export class ApiClient {
       headers.set('Authorization', `Bearer ${this.token}`);
     }
 
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, { headers, signal });
     if (!response.ok) {
       throw new ApiError(response.status, `Failed to get page: ${response.statusText}`);
     }
@@ -154,6 +155,11 @@ export class ApiClient {
     });
   }
 
+  // History
+  async getReadingHistory(): Promise<ReadingHistoryResponse> {
+    return this.fetch<ReadingHistoryResponse>('/history');
+  }
+
   // Indexing
   async getIndexingStatus(): Promise<IndexingStatusResponse> {
     return this.fetch<IndexingStatusResponse>('/indexing/status');
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  enqueueDownloads,
+  pauseDownloads,
+  resumeDownloads,
+  cancelDownloads,
+  prioritizeDownload,
+  getDownloadQueueSnapshot,
+  startDownloadQueue,
+  subscribeToCompletedDownloads,
+  loadDownloadQueue,
+  autoDownloadAllBooks,
+  cancelAutoDownload,
+  _resetDownloadQueue,
+} from '../services/downloadQueue';
+import { ApiClient } from '../services/apiClient';
+import * as storage from '../services/storage';
+import * as offlineService from '../services/offlineService';
+import type { BookResponse, DownloadQueueItem } from '../types';
+
+vi.mock('../services/storage');
+vi.mock('../services/offlineService');
+
+function createBook(path: string): BookResponse {
+  return {
+    path,
+    title: path,
+    pageCount: 4,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+  };
+}
+
+const apiClient = {} as ApiClient;
+
+// Let the queue process the pending promises
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('Download Queue', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    _resetDownloadQueue();
+    vi.mocked(storage.getDownloadQueue).mockResolvedValue([]);
+    vi.mocked(storage.saveDownloadQueueItem).mockResolvedValue();
+    vi.mocked(storage.removeDownloadQueueItem).mockResolvedValue();
+    vi.mocked(offlineService.isOnline).mockReturnValue(true);
+    vi.mocked(offlineService.isOnMeteredConnection).mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    _resetDownloadQueue();
+    vi.useRealTimers();
+  });
+
+  it('should download queued books and remove them from the queue', async () => {
+    vi.mocked(offlineService.downloadBookForOffline).mockResolvedValue();
+    const downloaded = vi.fn();
+    subscribeToCompletedDownloads(downloaded);
+    startDownloadQueue(apiClient);
+
+    await enqueueDownloads([createBook('a'), createBook('b')]);
+    await flush();
+
+    expect(offlineService.downloadBookForOffline).toHaveBeenCalledTimes(2);
+    expect(downloaded).toHaveBeenCalledTimes(2);
+    expect(getDownloadQueueSnapshot()).toEqual([]);
+    expect(storage.removeDownloadQueueItem).toHaveBeenCalledWith('a');
+  });
+
+  it('should not download while offline', async () => {
+    vi.mocked(offlineService.isOnline).mockReturnValue(false);
+    startDownloadQueue(apiClient);
+
+    await enqueueDownloads([createBook('a')]);
+    await flush();
+
+    expect(offlineService.downloadBookForOffline).not.toHaveBeenCalled();
+    expect(getDownloadQueueSnapshot().map(item => item.status)).toEqual(['queued']);
+  });
+
+  it('should queue the interrupted downloads of the previous session again', async () => {
+    const saved: DownloadQueueItem = {
+      path: 'a',
+      book: createBook('a'),
+      status: 'downloading',
+      source: 'user',
+      priority: 0,
+      addedAt: '2025-01-01T10:00:00Z',
+      attempts: 0,
+      downloadedPages: 2,
+    };
+    vi.mocked(storage.getDownloadQueue).mockResolvedValue([saved]);
+
+    await loadDownloadQueue();
+
+    expect(getDownloadQueueSnapshot()[0].status).toBe('queued');
+  });
+
+  it('should move prioritized books to the top of the queue', async () => {
+    await enqueueDownloads([createBook('a'), createBook('b'), createBook('c')]);
+
+    await prioritizeDownload('c');
+
+    expect(getDownloadQueueSnapshot().map(item => item.path)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should pause, resume and cancel books', async () => {
+    await enqueueDownloads([createBook('a'), createBook('b')]);
+
+    await pauseDownloads(['a']);
+    expect(getDownloadQueueSnapshot().find(item => item.path === 'a')?.status).toBe('paused');
+
+    await resumeDownloads(['a']);
+    expect(getDownloadQueueSnapshot().find(item => item.path === 'a')?.status).toBe('queued');
+
+    await cancelDownloads(['b']);
+    expect(getDownloadQueueSnapshot().map(item => item.path)).toEqual(['a']);
+  });
+
+  it('should only cancel the books queued by the disabled automatic download', async () => {
+    vi.mocked(storage.getCachedBooks).mockResolvedValue([]);
+    await enqueueDownloads([createBook('user')]);
+    await autoDownloadAllBooks([createBook('catalog')]);
+    await enqueueDownloads([createBook('smart')], { source: 'smartOffline' });
+
+    await cancelAutoDownload(['catalog']);
+
+    expect(getDownloadQueueSnapshot().map(item => [item.path, item.source])).toEqual([
+      ['user', 'user'],
+      ['smart', 'smartOffline'],
+    ]);
+  });
+
+  it('should keep a book queued automatically once the user queues it', async () => {
+    await enqueueDownloads([createBook('a')], { source: 'catalog' });
+    await enqueueDownloads([createBook('a')]);
+
+    await cancelAutoDownload(['catalog']);
+
+    expect(getDownloadQueueSnapshot().map(item => item.source)).toEqual(['user']);
+  });
+
+  it('should retry failed downloads with a delay', async () => {
+    vi.useFakeTimers();
+    vi.mocked(offlineService.downloadBookForOffline)
+      .mockRejectedValueOnce(new Error('Server error'))
+      .mockResolvedValueOnce();
+    startDownloadQueue(apiClient);
+
+    await enqueueDownloads([createBook('a')]);
+    await flush();
+
+    const [item] = getDownloadQueueSnapshot();
+    expect(item).toMatchObject({ status: 'queued', attempts: 1, error: 'Server error' });
+    expect(item.nextAttemptAt).toBeDefined();
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(offlineService.downloadBookForOffline).toHaveBeenCalledTimes(2);
+    expect(getDownloadQueueSnapshot()).toEqual([]);
+  });
+});
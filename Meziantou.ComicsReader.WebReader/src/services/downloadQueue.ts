@@ -0,0 +1,289 @@
+import { ApiClient } from './apiClient';
+import { getCachedBooks, getDownloadQueue, removeDownloadQueueItem, saveDownloadQueueItem } from './storage';
+import { downloadBookForOffline, isOnline, isOnMeteredConnection } from './offlineService';
+import { getNextRetryTime, getRetryDelay, getTopPriority, selectNextDownload, sortDownloadQueue } from '../utils';
+import type { BookResponse, DownloadQueueItem, DownloadSource } from '../types';
+
+// Failed attempts before a book is marked as failed and waits for a manual retry
+const MAX_DOWNLOAD_ATTEMPTS = 5;
+
+// The queue is kept in memory, sorted, and saved to IndexedDB on each change of status so it survives reloads.
+// Books are downloaded one at a time.
+let queueItems: DownloadQueueItem[] = [];
+let loadPromise: Promise<void> | null = null;
+let queueApiClient: ApiClient | null = null;
+let isProcessing = false;
+let activeDownload: { path: string; controller: AbortController } | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+const downloadedListeners = new Set<(book: BookResponse) => void>();
+
+function setQueueItems(items: DownloadQueueItem[]): void {
+  queueItems = sortDownloadQueue(items);
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+function saveItem(item: DownloadQueueItem): void {
+  saveDownloadQueueItem(item).catch(err => console.error('Failed to save download queue:', err));
+}
+
+// Progress is only kept in memory, the pages already cached are skipped when the download restarts
+function updateItem(path: string, update: Partial<DownloadQueueItem>, persist: boolean = true): void {
+  const item = queueItems.find(i => i.path === path);
+  if (!item) return;
+
+  const updated = { ...item, ...update };
+  setQueueItems(queueItems.map(i => i.path === path ? updated : i));
+  if (persist) {
+    saveItem(updated);
+  }
+}
+
+function abortActiveDownload(paths: ReadonlySet<string>): void {
+  if (activeDownload && paths.has(activeDownload.path)) {
+    activeDownload.controller.abort();
+  }
+}
+
+// Snapshot of the queue, in download order. A new array is created on each change.
+export function getDownloadQueueSnapshot(): DownloadQueueItem[] {
+  return queueItems;
+}
+
+export function subscribeToDownloadQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Notified when a book of the queue is fully downloaded
+export function subscribeToCompletedDownloads(listener: (book: BookResponse) => void): () => void {
+  downloadedListeners.add(listener);
+  return () => {
+    downloadedListeners.delete(listener);
+  };
+}
+
+// Load the queue saved by the previous session. Interrupted downloads are queued again.
+export function loadDownloadQueue(): Promise<void> {
+  loadPromise ??= getDownloadQueue().then(items => {
+    setQueueItems(items.map(item => item.status === 'downloading' ? { ...item, status: 'queued' } : item));
+  });
+  return loadPromise;
+}
+
+// Process the queue with the client of the current settings. Called again when coming back online.
+export function startDownloadQueue(apiClient: ApiClient | null): void {
+  queueApiClient = apiClient;
+  processQueue().catch(err => console.error('Failed to process download queue:', err));
+}
+
+async function processQueue(): Promise<void> {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  try {
+    await loadDownloadQueue();
+
+    // Downloads wait on metered connections and while offline
+    while (queueApiClient && isOnline() && !isOnMeteredConnection()) {
+      const next = selectNextDownload(queueItems, new Date());
+      if (!next) break;
+
+      await downloadItem(queueApiClient, next);
+    }
+  } finally {
+    isProcessing = false;
+  }
+
+  scheduleRetry();
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const nextRetry = getNextRetryTime(queueItems);
+  if (!nextRetry) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processQueue().catch(err => console.error('Failed to process download queue:', err));
+  }, Math.max(0, nextRetry.getTime() - Date.now()));
+}
+
+async function downloadItem(apiClient: ApiClient, item: DownloadQueueItem): Promise<void> {
+  const controller = new AbortController();
+  activeDownload = { path: item.path, controller };
+  updateItem(item.path, { status: 'downloading', nextAttemptAt: undefined });
+
+  try {
+    await downloadBookForOffline(apiClient, item.book, downloaded => {
+      updateItem(item.path, { downloadedPages: downloaded }, false);
+    }, controller.signal);
+
+    setQueueItems(queueItems.filter(i => i.path !== item.path));
+    await removeDownloadQueueItem(item.path);
+    for (const listener of downloadedListeners) {
+      listener(item.book);
+    }
+  } catch (err) {
+    // Paused or cancelled, the queue is already up to date
+    if (controller.signal.aborted) return;
+
+    const errMsg = err instanceof Error ? err.message : String(err);
+
+    // Losing the connection is not a failure of the book, it restarts when back online
+    if (!isOnline() || isOnMeteredConnection()) {
+      updateItem(item.path, { status: 'queued', error: errMsg });
+      return;
+    }
+
+    const attempts = item.attempts + 1;
+    if (attempts >= MAX_DOWNLOAD_ATTEMPTS) {
+      updateItem(item.path, { status: 'failed', attempts, error: errMsg });
+    } else {
+      const nextAttemptAt = new Date(Date.now() + getRetryDelay(attempts)).toISOString();
+      updateItem(item.path, { status: 'queued', attempts, error: errMsg, nextAttemptAt });
+    }
+  } finally {
+    if (activeDownload?.controller === controller) {
+      activeDownload = null;
+    }
+  }
+}
+
+// Add books to the queue. Books already queued are resumed and keep their place unless prioritized.
+export async function enqueueDownloads(
+  books: BookResponse[],
+  options: { prioritize?: boolean; source?: DownloadSource } = {}
+): Promise<void> {
+  await loadDownloadQueue();
+
+  const source = options.source ?? 'user';
+  const priority = options.prioritize ? getTopPriority(queueItems) : 0;
+  const existing = new Map(queueItems.map(item => [item.path, item]));
+  const added: DownloadQueueItem[] = [];
+  const now = new Date().toISOString();
+
+  for (const book of books) {
+    const item = existing.get(book.path);
+    if (item) {
+      // Books queued automatically are not resumed, the user paused or cancelled them
+      if (source !== 'user') continue;
+
+      const updated: DownloadQueueItem = {
+        ...item,
+        status: item.status === 'downloading' ? 'downloading' : 'queued',
+        priority: Math.max(item.priority, priority),
+        source: 'user',
+        attempts: item.status === 'failed' ? 0 : item.attempts,
+        nextAttemptAt: undefined,
+      };
+      existing.set(book.path, updated);
+      saveItem(updated);
+    } else {
+      const created: DownloadQueueItem = {
+        path: book.path,
+        book,
+        status: 'queued',
+        priority,
+        addedAt: now,
+        source,
+        attempts: 0,
+        downloadedPages: 0,
+      };
+      added.push(created);
+      saveItem(created);
+    }
+  }
+
+  setQueueItems([...existing.values(), ...added]);
+  startDownloadQueue(queueApiClient);
+}
+
+export async function pauseDownloads(paths: string[]): Promise<void> {
+  await loadDownloadQueue();
+
+  const pathSet = new Set(paths);
+  for (const item of queueItems) {
+    if (pathSet.has(item.path) && item.status !== 'failed') {
+      updateItem(item.path, { status: 'paused', nextAttemptAt: undefined });
+    }
+  }
+  abortActiveDownload(pathSet);
+}
+
+// Resuming a failed book restarts the retry count
+export async function resumeDownloads(paths: string[]): Promise<void> {
+  await loadDownloadQueue();
+
+  const pathSet = new Set(paths);
+  for (const item of queueItems) {
+    if (pathSet.has(item.path) && (item.status === 'paused' || item.status === 'failed')) {
+      updateItem(item.path, { status: 'queued', attempts: 0, nextAttemptAt: undefined, error: undefined });
+    }
+  }
+  startDownloadQueue(queueApiClient);
+}
+
+export async function cancelDownloads(paths: string[]): Promise<void> {
+  await loadDownloadQueue();
+
+  const pathSet = new Set(paths);
+  abortActiveDownload(pathSet);
+  setQueueItems(queueItems.filter(item => !pathSet.has(item.path)));
+  for (const path of pathSet) {
+    await removeDownloadQueueItem(path);
+  }
+}
+
+// Move a book to the top of the queue. It starts after the book being downloaded.
+export async function prioritizeDownload(path: string): Promise<void> {
+  await loadDownloadQueue();
+
+  updateItem(path, { priority: getTopPriority(queueItems.filter(item => item.path !== path)) });
+  startDownloadQueue(queueApiClient);
+}
+
+// Queue the books of the catalog that are not downloaded yet
+export async function autoDownloadAllBooks(books: BookResponse[]): Promise<void> {
+  const cachedBooksInfo = await getCachedBooks();
+  const downloadedPaths = new Set(
+    cachedBooksInfo.filter(b => b.fullyDownloaded).map(b => b.path)
+  );
+
+  const booksToDownload = books.filter(book => !downloadedPaths.has(book.path));
+  if (booksToDownload.length > 0) {
+    await enqueueDownloads(booksToDownload, { source: 'catalog' });
+  }
+}
+
+// Remove the books queued by the given automatic downloads, the books queued by the user are kept
+export async function cancelAutoDownload(sources: DownloadSource[]): Promise<void> {
+  await loadDownloadQueue();
+
+  await cancelDownloads(queueItems.filter(item => sources.includes(item.source)).map(item => item.path));
+}
+
+// Reset the state of the queue (for testing)
+export function _resetDownloadQueue(): void {
+  activeDownload?.controller.abort();
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+  }
+
+  queueItems = [];
+  loadPromise = null;
+  queueApiClient = null;
+  isProcessing = false;
+  activeDownload = null;
+  retryTimer = null;
+  listeners.clear();
+  downloadedListeners.clear();
+}
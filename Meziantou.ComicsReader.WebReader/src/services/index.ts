@@ -1,3 +1,6 @@
 export * from './apiClient';
 export * from './storage';
 export * from './offlineService';
+export * from './downloadQueue';
+export * from './smartOffline';
+export * from './thumbnailService';
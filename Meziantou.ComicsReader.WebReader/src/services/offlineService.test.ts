@@ -5,11 +5,19 @@ import {
   getCoverWithCache,
   getPageWithCache,
   updateReadingProgress,
+  resetReadingProgress,
+  markBookAsUnread,
   syncPendingUpdates,
   preloadCoverCache,
+  getReadingHistoryWithCache,
+  enforceStorageBudget,
+  downloadBookForOffline,
+  downloadBookPages,
+  setSmartOfflinePaths,
 } from '../services/offlineService';
 import { ApiClient } from '../services/apiClient';
 import * as storage from '../services/storage';
+import type { AppSettings, BookResponse } from '../types';
 
 vi.mock('../services/storage');
 
@@ -151,7 +159,7 @@ describe('Offline Service', () => {
       vi.mocked(storage.updateLocalReadingListItem).mockResolvedValue();
       vi.mocked(storage.addPendingUpdate).mockResolvedValue();
 
-      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5, 10);
+      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5);
 
       expect(storage.updateLocalReadingListItem).toHaveBeenCalledWith('test/book.cbz', 5, false);
       expect(storage.addPendingUpdate).toHaveBeenCalledWith('test/book.cbz', 5);
@@ -166,7 +174,7 @@ describe('Offline Service', () => {
         items: [],
       });
 
-      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5, 10);
+      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5);
 
       expect(storage.updateLocalReadingListItem).toHaveBeenCalledWith('test/book.cbz', 5, false);
       expect(mockApiClient.updateReadingProgress).toHaveBeenCalledWith('test/book.cbz', 5);
@@ -179,22 +187,74 @@ describe('Offline Service', () => {
       vi.mocked(mockApiClient.updateReadingProgress).mockRejectedValue(new Error('Network error'));
       vi.mocked(storage.addPendingUpdate).mockResolvedValue();
 
-      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5, 10);
+      await updateReadingProgress(mockApiClient, 'test/book.cbz', 5);
 
       expect(storage.addPendingUpdate).toHaveBeenCalledWith('test/book.cbz', 5);
     });
 
-    it('should mark book as completed when on last page', async () => {
-      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+    it('should keep a book marked as unread not completed when reading its last page', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: false, writable: true });
       vi.mocked(storage.updateLocalReadingListItem).mockResolvedValue();
-      vi.mocked(mockApiClient.updateReadingProgress).mockResolvedValue({
-        totalCount: 0,
-        items: [],
-      });
+      vi.mocked(storage.clearPendingUpdatesForBook).mockResolvedValue();
+      vi.mocked(storage.addPendingUpdate).mockResolvedValue();
+
+      await markBookAsUnread(mockApiClient, 'test/book.cbz', 9);
+      await updateReadingProgress(mockApiClient, 'test/book.cbz', 9);
+
+      expect(vi.mocked(storage.updateLocalReadingListItem).mock.calls).toEqual([
+        ['test/book.cbz', 9, false],
+        ['test/book.cbz', 9, false],
+      ]);
+    });
+  });
+
+  describe('Reset Reading Progress', () => {
+    let mockApiClient: ApiClient;
+
+    beforeEach(() => {
+      mockApiClient = {
+        removeFromReadingList: vi.fn(),
+        updateReadingProgress: vi.fn(),
+      } as unknown as ApiClient;
+    });
+
+    it('should remove the local progress and queue the reset when offline', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: false, writable: true });
+
+      await resetReadingProgress(mockApiClient, 'test/book.cbz');
+
+      expect(storage.removeLocalReadingListItem).toHaveBeenCalledWith('test/book.cbz');
+      expect(storage.clearPendingUpdatesForBook).toHaveBeenCalledWith('test/book.cbz');
+      expect(storage.addPendingUpdate).toHaveBeenCalledWith('test/book.cbz', 0, 'reset');
+      expect(mockApiClient.removeFromReadingList).not.toHaveBeenCalled();
+    });
+
+    it('should remove the book from the reading list of the server when online', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+      vi.mocked(mockApiClient.removeFromReadingList).mockResolvedValue({ totalCount: 0, items: [] });
+
+      await resetReadingProgress(mockApiClient, 'test/book.cbz');
+
+      expect(mockApiClient.removeFromReadingList).toHaveBeenCalledWith('test/book.cbz');
+      expect(storage.addPendingUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should queue the reset when the server request fails', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+      vi.mocked(mockApiClient.removeFromReadingList).mockRejectedValue(new Error('Network error'));
+
+      await resetReadingProgress(mockApiClient, 'test/book.cbz');
+
+      expect(storage.addPendingUpdate).toHaveBeenCalledWith('test/book.cbz', 0, 'reset');
+    });
 
-      await updateReadingProgress(mockApiClient, 'test/book.cbz', 9, 10);
+    it('should keep the position when marking as unread', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: false, writable: true });
+
+      await markBookAsUnread(mockApiClient, 'test/book.cbz', 9);
 
-      expect(storage.updateLocalReadingListItem).toHaveBeenCalledWith('test/book.cbz', 9, true);
+      expect(storage.updateLocalReadingListItem).toHaveBeenCalledWith('test/book.cbz', 9, false);
+      expect(storage.addPendingUpdate).toHaveBeenCalledWith('test/book.cbz', 9, 'unread');
     });
   });
 
@@ -258,6 +318,79 @@ describe('Offline Service', () => {
       expect(mockApiClient.updateReadingProgress).not.toHaveBeenCalled();
       expect(storage.removePendingUpdate).toHaveBeenCalledWith('1');
     });
+
+    it('should reset the server progress before replaying the following updates', async () => {
+      mockApiClient.removeFromReadingList = vi.fn().mockResolvedValue({ totalCount: 0, items: [] });
+      vi.mocked(storage.getPendingUpdates).mockResolvedValue([
+        { id: '1', bookPath: 'test/book.cbz', pageIndex: 0, timestamp: '2025-01-01', kind: 'reset' },
+        { id: '2', bookPath: 'test/book.cbz', pageIndex: 2, timestamp: '2025-01-02', kind: 'progress' },
+      ]);
+
+      await syncPendingUpdates(mockApiClient);
+
+      expect(mockApiClient.getReadingListItem).not.toHaveBeenCalled();
+      expect(mockApiClient.removeFromReadingList).toHaveBeenCalledWith('test/book.cbz');
+      expect(mockApiClient.updateReadingProgress).toHaveBeenCalledWith('test/book.cbz', 2);
+      expect(storage.removePendingUpdate).toHaveBeenCalledWith('1');
+      expect(storage.removePendingUpdate).toHaveBeenCalledWith('2');
+    });
+
+    it('should replace the server progress when marked as unread', async () => {
+      vi.mocked(storage.getPendingUpdates).mockResolvedValue([
+        { id: '1', bookPath: 'test/book.cbz', pageIndex: 9, timestamp: '2025-01-01', kind: 'progress' },
+        { id: '2', bookPath: 'test/book.cbz', pageIndex: 4, timestamp: '2025-01-02', kind: 'unread' },
+      ]);
+
+      await syncPendingUpdates(mockApiClient);
+
+      expect(mockApiClient.getReadingListItem).not.toHaveBeenCalled();
+      expect(mockApiClient.updateReadingProgress).toHaveBeenCalledWith('test/book.cbz', 4);
+    });
+  });
+
+  describe('Reading History', () => {
+    const historyItems = [
+      { bookPath: 'test/book.cbz', completedAt: '2025-01-01T10:00:00Z', bookTitle: 'Book' },
+    ];
+
+    it('should fetch history and keep an offline copy when online', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+      const mockApiClient = {
+        getReadingHistory: vi.fn().mockResolvedValue({ totalCount: 1, items: historyItems }),
+      } as unknown as ApiClient;
+      vi.mocked(storage.saveLocalReadingHistory).mockResolvedValue();
+
+      const items = await getReadingHistoryWithCache(mockApiClient);
+
+      expect(items).toEqual(historyItems);
+      expect(storage.saveLocalReadingHistory).toHaveBeenCalledWith(historyItems);
+      expect(storage.getLocalReadingHistory).not.toHaveBeenCalled();
+    });
+
+    it('should use the offline copy when offline', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: false, writable: true });
+      const mockApiClient = {
+        getReadingHistory: vi.fn(),
+      } as unknown as ApiClient;
+      vi.mocked(storage.getLocalReadingHistory).mockResolvedValue(historyItems);
+
+      const items = await getReadingHistoryWithCache(mockApiClient);
+
+      expect(items).toEqual(historyItems);
+      expect(mockApiClient.getReadingHistory).not.toHaveBeenCalled();
+    });
+
+    it('should use the offline copy when the request fails', async () => {
+      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+      const mockApiClient = {
+        getReadingHistory: vi.fn().mockRejectedValue(new Error('Network error')),
+      } as unknown as ApiClient;
+      vi.mocked(storage.getLocalReadingHistory).mockResolvedValue(historyItems);
+
+      const items = await getReadingHistoryWithCache(mockApiClient);
+
+      expect(items).toEqual(historyItems);
+    });
   });
 
   describe('Preload Cover Cache', () => {
@@ -275,4 +408,166 @@ describe('Offline Service', () => {
       expect(storage.getCachedCover).toHaveBeenCalledTimes(25);
     });
   });
+
+  describe('Storage Budget', () => {
+    const MB = 1024 * 1024;
+
+    beforeEach(() => {
+      vi.mocked(storage.getCacheUsage).mockResolvedValue([
+        { path: 'recent.cbz', sizeBytes: MB, lastAccessedAt: '2025-01-03T10:00:00Z' },
+        { path: 'oldest.cbz', sizeBytes: MB, lastAccessedAt: '2025-01-01T10:00:00Z' },
+        { path: 'in-progress.cbz', sizeBytes: MB, lastAccessedAt: '2024-12-01T10:00:00Z' },
+      ]);
+      vi.mocked(storage.getLocalReadingList).mockResolvedValue(new Map([
+        ['in-progress.cbz', { pageIndex: 3, completed: false, lastRead: '2024-12-01T10:00:00Z' }],
+      ]));
+    });
+
+    it('should evict the least recently used books except the ones in progress', async () => {
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 2 } as AppSettings);
+
+      const evicted = await enforceStorageBudget();
+
+      expect(evicted).toEqual(['oldest.cbz']);
+      expect(storage.removeCachedBook).toHaveBeenCalledTimes(1);
+      expect(storage.removeCachedBook).toHaveBeenCalledWith('oldest.cbz');
+    });
+
+    it('should not evict protected books', async () => {
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 2 } as AppSettings);
+
+      const evicted = await enforceStorageBudget(['oldest.cbz']);
+
+      expect(evicted).toEqual(['recent.cbz']);
+    });
+
+    it('should not evict anything without limit', async () => {
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 0 } as AppSettings);
+
+      const evicted = await enforceStorageBudget();
+
+      expect(evicted).toEqual([]);
+      expect(storage.getCacheUsage).not.toHaveBeenCalled();
+    });
+
+    it('should not evict anything when all the books are downloaded automatically', async () => {
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 2, autoDownloadNewBooks: true } as AppSettings);
+
+      const evicted = await enforceStorageBudget();
+
+      expect(evicted).toEqual([]);
+      expect(storage.removeCachedBook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Download Book', () => {
+    const book: BookResponse = {
+      path: 'test/book.cbz',
+      title: 'Book',
+      pageCount: 5,
+      fileSize: 1000,
+      coverImageFileName: null,
+      directory: null,
+      firstDirectory: null,
+      currentPage: null,
+      isCompleted: false,
+      lastRead: null,
+    };
+
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'onLine', { value: true, writable: true });
+      Object.defineProperty(navigator, 'connection', { value: undefined, writable: true });
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 0 } as AppSettings);
+      vi.mocked(storage.getCachedPageIndices).mockResolvedValue([1]);
+    });
+
+    it('should download the missing pages in parallel and report progress in page order', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const mockApiClient = {
+        getPage: vi.fn(async (_path: string, pageIndex: number) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          // The first page is the slowest
+          await new Promise(resolve => setTimeout(resolve, pageIndex === 0 ? 20 : 1));
+          active--;
+          return new Blob(['page']);
+        }),
+      } as unknown as ApiClient;
+      const onProgress = vi.fn();
+
+      await downloadBookForOffline(mockApiClient, book, onProgress);
+
+      expect(mockApiClient.getPage).toHaveBeenCalledTimes(4);
+      expect(mockApiClient.getPage).not.toHaveBeenCalledWith(book.path, 1, undefined);
+      expect(maxActive).toBeGreaterThan(1);
+      const reported = onProgress.mock.calls.map(([downloaded]) => downloaded);
+      expect(reported).toEqual([...reported].sort((a, b) => a - b));
+      expect(onProgress).toHaveBeenLastCalledWith(5, 5);
+      expect(storage.updateBookDownloadStatus).toHaveBeenCalledWith(book.path, true);
+    });
+
+    it('should retry failed pages before failing the download', async () => {
+      const mockApiClient = {
+        getPage: vi.fn(async (_path: string, pageIndex: number) => {
+          if (pageIndex === 0) throw new Error('Server error');
+          return new Blob(['page']);
+        }),
+      } as unknown as ApiClient;
+
+      await expect(downloadBookForOffline(mockApiClient, book)).rejects.toThrow('Server error');
+
+      expect(vi.mocked(mockApiClient.getPage).mock.calls.filter(([, pageIndex]) => pageIndex === 0)).toHaveLength(3);
+      expect(storage.updateBookDownloadStatus).not.toHaveBeenCalled();
+    });
+
+    it('should stop when cancelled', async () => {
+      const controller = new AbortController();
+      const mockApiClient = {
+        getPage: vi.fn(async () => {
+          controller.abort();
+          return new Blob(['page']);
+        }),
+      } as unknown as ApiClient;
+
+      await expect(downloadBookForOffline(mockApiClient, book, undefined, controller.signal))
+        .rejects.toThrow('Download cancelled');
+
+      expect(vi.mocked(mockApiClient.getPage).mock.calls.length).toBeLessThan(4);
+    });
+
+    it('should not evict the books planned by the smart offline mode while downloading', async () => {
+      const MB = 1024 * 1024;
+      vi.mocked(storage.getSettings).mockResolvedValue({ storageBudgetMB: 1 } as AppSettings);
+      vi.mocked(storage.getLocalReadingList).mockResolvedValue(new Map());
+      vi.mocked(storage.getCacheUsage).mockResolvedValue([
+        { path: 'planned.cbz', sizeBytes: MB, lastAccessedAt: '2025-01-01T10:00:00Z' },
+        { path: 'other.cbz', sizeBytes: MB, lastAccessedAt: '2025-01-02T10:00:00Z' },
+      ]);
+      const mockApiClient = {
+        getPage: vi.fn().mockResolvedValue(new Blob(['page'])),
+      } as unknown as ApiClient;
+      setSmartOfflinePaths(['planned.cbz']);
+
+      try {
+        await downloadBookForOffline(mockApiClient, book);
+
+        await vi.waitFor(() => expect(storage.removeCachedBook).toHaveBeenCalledWith('other.cbz'));
+        expect(storage.removeCachedBook).not.toHaveBeenCalledWith('planned.cbz');
+      } finally {
+        setSmartOfflinePaths([]);
+      }
+    });
+
+    it('should only download the missing pages requested', async () => {
+      const mockApiClient = {
+        getPage: vi.fn().mockResolvedValue(new Blob(['page'])),
+      } as unknown as ApiClient;
+
+      await downloadBookPages(mockApiClient, book, [1, 2, 3]);
+
+      expect(vi.mocked(mockApiClient.getPage).mock.calls.map(([, pageIndex]) => pageIndex)).toEqual([2, 3]);
+      expect(storage.updateBookDownloadStatus).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -5,6 +5,8 @@ import {
   removePendingUpdate,
   getLocalReadingList,
   updateLocalReadingListItem,
+  removeLocalReadingListItem,
+  clearPendingUpdatesForBook,
   getCachedPage,
   cachePage,
   getCachedCover,
@@ -17,8 +19,14 @@ import {
   isBookFullyDownloaded,
   getCachedPageCount,
   getCachedPageIndices,
+  getLocalReadingHistory,
+  saveLocalReadingHistory,
+  getSettings,
+  getCacheUsage,
+  removeCachedBook,
 } from './storage';
-import type { BookResponse, ReadingListItemResponse } from '../types';
+import { adjustConcurrency, countCompletedPrefix, getPageRetryDelay, getStorageBudgetBytes, selectBooksToEvict, type ConcurrencyState } from '../utils';
+import type { BookResponse, PendingProgressUpdate, ReadingHistoryItemResponse, ReadingListItemResponse } from '../types';
 
 // In-memory cache for cover URLs to avoid repeated IndexedDB lookups
 const coverUrlCache = new Map<string, string>();
@@ -72,40 +80,32 @@ export async function syncPendingUpdates(apiClient: ApiClient): Promise<void> {
 
   const pendingUpdates = await getPendingUpdates();
 
-  // Group by book path, keeping only the highest page for each
-  const latestByBook = new Map<string, { id: string; pageIndex: number }>();
+  // Group by book path, in the order they were queued
+  const updatesByBook = new Map<string, PendingProgressUpdate[]>();
   for (const update of pendingUpdates) {
-    const existing = latestByBook.get(update.bookPath);
-    if (!existing || update.pageIndex > existing.pageIndex) {
-      latestByBook.set(update.bookPath, { id: update.id, pageIndex: update.pageIndex });
+    const updates = updatesByBook.get(update.bookPath);
+    if (updates) {
+      updates.push(update);
+    } else {
+      updatesByBook.set(update.bookPath, [update]);
     }
   }
 
-  for (const [bookPath, { pageIndex }] of latestByBook) {
+  for (const [bookPath, updates] of updatesByBook) {
     try {
-      // Get current server state
-      const serverItem = await apiClient.getReadingListItem(bookPath);
-
-      // Conflict resolution: highest page number wins
-      if (!serverItem || pageIndex > serverItem.pageIndex) {
-        await apiClient.updateReadingProgress(bookPath, pageIndex);
-      }
+      await syncBookUpdates(apiClient, bookPath, updates);
 
       // Remove all pending updates for this book
-      for (const update of pendingUpdates) {
-        if (update.bookPath === bookPath) {
-          await removePendingUpdate(update.id);
-        }
+      for (const update of updates) {
+        await removePendingUpdate(update.id);
       }
     } catch (error) {
       // If it's a 400 error (Bad Request), the book probably doesn't exist anymore
       // Delete the pending updates instead of retrying
       if (error instanceof Error && 'status' in error && (error as any).status === 400) {
         console.warn(`Book not found (400), removing pending updates for ${bookPath}`);
-        for (const update of pendingUpdates) {
-          if (update.bookPath === bookPath) {
-            await removePendingUpdate(update.id);
-          }
+        for (const update of updates) {
+          await removePendingUpdate(update.id);
         }
       } else {
         console.error(`Failed to sync progress for ${bookPath}:`, error);
@@ -115,17 +115,51 @@ export async function syncPendingUpdates(apiClient: ApiClient): Promise<void> {
   }
 }
 
-// Update reading progress (works both online and offline)
+// Replay the pending updates of a book. The last reset or unread update replaces the progress of the server,
+// then the progress updates queued after it are applied, the highest page winning.
+async function syncBookUpdates(apiClient: ApiClient, bookPath: string, updates: PendingProgressUpdate[]): Promise<void> {
+  let explicitIndex = -1;
+  for (let i = 0; i < updates.length; i++) {
+    if (updates[i].kind === 'reset' || updates[i].kind === 'unread') {
+      explicitIndex = i;
+    }
+  }
+
+  const explicitUpdate = explicitIndex >= 0 ? updates[explicitIndex] : null;
+  const progressUpdates = updates.slice(explicitIndex + 1);
+  const highestPage = progressUpdates.length > 0 ? Math.max(...progressUpdates.map(u => u.pageIndex)) : null;
+
+  if (!explicitUpdate) {
+    if (highestPage === null) return;
+
+    // Get current server state
+    const serverItem = await apiClient.getReadingListItem(bookPath);
+
+    // Conflict resolution: highest page number wins
+    if (!serverItem || highestPage > serverItem.pageIndex) {
+      await apiClient.updateReadingProgress(bookPath, highestPage);
+    }
+  } else if (explicitUpdate.kind === 'reset') {
+    await apiClient.removeFromReadingList(bookPath);
+    if (highestPage !== null) {
+      await apiClient.updateReadingProgress(bookPath, highestPage);
+    }
+  } else {
+    // Updating the progress marks the book as not completed on the server
+    await apiClient.updateReadingProgress(bookPath, Math.max(explicitUpdate.pageIndex, highestPage ?? -1));
+  }
+}
+
+// Update reading progress (works both online and offline).
+// Like on the server, reaching the last page doesn't complete the book: only marking it as read does,
+// so a book marked as unread stays unread when it is opened again on its last page.
 export async function updateReadingProgress(
   apiClient: ApiClient | null,
   bookPath: string,
-  pageIndex: number,
-  pageCount: number
+  pageIndex: number
 ): Promise<void> {
-  const completed = pageIndex >= pageCount - 1;
-
   // Always update local storage
-  await updateLocalReadingListItem(bookPath, pageIndex, completed);
+  await updateLocalReadingListItem(bookPath, pageIndex, false);
 
   if (isOnline() && apiClient) {
     try {
@@ -140,6 +174,42 @@ export async function updateReadingProgress(
   }
 }
 
+// Reset the progress of a book: it becomes unread and starts at the first page (works both online and offline)
+export async function resetReadingProgress(apiClient: ApiClient | null, bookPath: string): Promise<void> {
+  await removeLocalReadingListItem(bookPath);
+
+  // The progress queued before the reset must not be replayed over it
+  await clearPendingUpdatesForBook(bookPath);
+
+  if (isOnline() && apiClient) {
+    try {
+      await apiClient.removeFromReadingList(bookPath);
+    } catch (error) {
+      console.error('Failed to reset progress online, queuing for later:', error);
+      await addPendingUpdate(bookPath, 0, 'reset');
+    }
+  } else {
+    await addPendingUpdate(bookPath, 0, 'reset');
+  }
+}
+
+// Mark a completed book as unread, keeping its position (works both online and offline)
+export async function markBookAsUnread(apiClient: ApiClient | null, bookPath: string, pageIndex: number): Promise<void> {
+  await updateLocalReadingListItem(bookPath, pageIndex, false);
+  await clearPendingUpdatesForBook(bookPath);
+
+  if (isOnline() && apiClient) {
+    try {
+      await apiClient.updateReadingProgress(bookPath, pageIndex);
+    } catch (error) {
+      console.error('Failed to mark as unread online, queuing for later:', error);
+      await addPendingUpdate(bookPath, pageIndex, 'unread');
+    }
+  } else {
+    await addPendingUpdate(bookPath, pageIndex, 'unread');
+  }
+}
+
 // Get page with caching
 export async function getPageWithCache(
   apiClient: ApiClient | null,
@@ -163,6 +233,7 @@ export async function getPageWithCache(
   // Cache if auto-caching is enabled and not on metered connection
   if (autoCachePages && !isOnMeteredConnection()) {
     await cachePage(bookPath, pageIndex, blob);
+    scheduleStorageBudgetEnforcement(bookPath);
   }
 
   return URL.createObjectURL(blob);
@@ -216,6 +287,117 @@ export async function getCoverWithCache(
   return null;
 }
 
+const PAGE_DOWNLOAD_CONCURRENCY = { min: 1, max: 6 };
+const INITIAL_PAGE_DOWNLOAD_CONCURRENCY = 2;
+// Attempts per page before the download of the book fails
+const MAX_PAGE_ATTEMPTS = 3;
+
+// Resolves early when the download is cancelled
+function waitBeforeRetry(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, milliseconds);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Download the missing pages of a book (or of the given pages) with a pool of parallel downloads.
+// The number of parallel downloads follows the measured throughput and error rate.
+async function downloadPages(
+  apiClient: ApiClient,
+  book: BookResponse,
+  pageIndices: number[] | null,
+  onProgress?: (downloaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const completed = new Array<boolean>(book.pageCount).fill(false);
+  for (const pageIndex of await getCachedPageIndices(book.path)) {
+    if (pageIndex < book.pageCount) {
+      completed[pageIndex] = true;
+    }
+  }
+
+  const remaining = (pageIndices ?? completed.map((_, pageIndex) => pageIndex))
+    .filter(pageIndex => pageIndex < book.pageCount && !completed[pageIndex]);
+  const attempts = new Map<number, number>();
+  const inFlight = new Map<number, Promise<void>>();
+  let failure: unknown = null;
+
+  // Progress is reported in page order, pages downloaded ahead are counted once the previous ones are done
+  let reported = countCompletedPrefix(completed);
+  if (reported > 0) {
+    onProgress?.(reported, book.pageCount);
+  }
+
+  let state: ConcurrencyState = { concurrency: INITIAL_PAGE_DOWNLOAD_CONCURRENCY, previousThroughput: null };
+  let sample = { pages: 0, bytes: 0, errors: 0, startedAt: Date.now() };
+
+  const downloadPage = async (pageIndex: number) => {
+    try {
+      const pageBlob = await apiClient.getPage(book.path, pageIndex, signal);
+      await cachePage(book.path, pageIndex, pageBlob);
+      scheduleStorageBudgetEnforcement(book.path);
+      completed[pageIndex] = true;
+      sample.pages++;
+      sample.bytes += pageBlob.size;
+    } catch (error) {
+      if (signal?.aborted) return;
+
+      sample.errors++;
+      const pageAttempts = (attempts.get(pageIndex) ?? 0) + 1;
+      attempts.set(pageIndex, pageAttempts);
+      if (pageAttempts >= MAX_PAGE_ATTEMPTS) {
+        failure ??= error;
+      } else {
+        // Give the server or the network time to recover before trying the page again
+        await waitBeforeRetry(getPageRetryDelay(pageAttempts), signal);
+        remaining.unshift(pageIndex);
+      }
+    }
+  };
+
+  while (remaining.length > 0 || inFlight.size > 0) {
+    // Stop starting pages once cancelled, failed or metered. The pages being downloaded are awaited.
+    const canStart = failure === null && !signal?.aborted && !isOnMeteredConnection();
+    while (canStart && inFlight.size < state.concurrency) {
+      const pageIndex = remaining.shift();
+      if (pageIndex === undefined) break;
+
+      inFlight.set(pageIndex, downloadPage(pageIndex).finally(() => inFlight.delete(pageIndex)));
+    }
+
+    if (inFlight.size === 0) break;
+
+    await Promise.race(inFlight.values());
+
+    const downloaded = countCompletedPrefix(completed, reported);
+    if (downloaded > reported) {
+      reported = downloaded;
+      onProgress?.(reported, book.pageCount);
+    }
+
+    // Adjust after as many pages as parallel downloads, or right away on errors
+    if (sample.errors > 0 || sample.pages >= state.concurrency) {
+      state = adjustConcurrency(state, { ...sample, elapsedMs: Date.now() - sample.startedAt }, PAGE_DOWNLOAD_CONCURRENCY);
+      sample = { pages: 0, bytes: 0, errors: 0, startedAt: Date.now() };
+    }
+  }
+
+  if (signal?.aborted) {
+    throw new Error('Download cancelled');
+  }
+
+  if (failure !== null) {
+    throw failure;
+  }
+
+  if (remaining.length > 0) {
+    throw new Error('Cannot download on metered connection');
+  }
+}
+
 // Download entire book for offline access
 export async function downloadBookForOffline(
   apiClient: ApiClient,
@@ -253,94 +435,92 @@ export async function downloadBookForOffline(
   }
 
   // Download all pages
-  for (let i = 0; i < book.pageCount; i++) {
-    // Check if aborted before each page download
-    if (signal?.aborted) {
-      throw new Error('Download cancelled');
-    }
-    
-    const existingPage = await getCachedPage(book.path, i);
-    if (!existingPage) {
-      const pageBlob = await apiClient.getPage(book.path, i);
-      await cachePage(book.path, i, pageBlob);
-    }
-    onProgress?.(i + 1, book.pageCount);
-  }
+  await whileDownloading(book.path, () => downloadPages(apiClient, book, null, onProgress, signal));
 
   // Mark as fully downloaded
   await updateBookDownloadStatus(book.path, true);
 }
 
-// Auto-download state management
-let autoDownloadAbortController: AbortController | null = null;
-
-// Auto-download all books from catalog (respects metered connection check)
-export async function autoDownloadAllBooks(
+// Download some pages of a book, e.g. the next pages to read. The book is not marked as downloaded.
+export async function downloadBookPages(
   apiClient: ApiClient,
-  books: BookResponse[]
+  book: BookResponse,
+  pageIndices: number[],
+  signal?: AbortSignal
 ): Promise<void> {
-  if (!isOnline() || isOnMeteredConnection()) {
-    return;
+  if (!isOnline()) {
+    throw new Error('Cannot download while offline');
   }
 
-  // Cancel any existing download
-  if (autoDownloadAbortController) {
-    autoDownloadAbortController.abort();
+  if (isOnMeteredConnection()) {
+    throw new Error('Cannot download on metered connection');
   }
 
-  // Create new abort controller for this download session
-  autoDownloadAbortController = new AbortController();
-  const signal = autoDownloadAbortController.signal;
+  await whileDownloading(book.path, () => downloadPages(apiClient, book, pageIndices, undefined, signal));
+}
 
-  // Filter out already downloaded books
-  const cachedBooksInfo = await getCachedBooks();
-  const downloadedPaths = new Set(
-    cachedBooksInfo.filter(b => b.fullyDownloaded).map(b => b.path)
-  );
+let storageBudgetEnforcement: Promise<void> | null = null;
 
-  const booksToDownload = books.filter(book => !downloadedPaths.has(book.path));
+// Books being downloaded, with their number of running downloads. They are never evicted.
+const downloadingPaths = new Map<string, number>();
 
-  if (booksToDownload.length === 0) {
-    autoDownloadAbortController = null;
-    return;
+async function whileDownloading(bookPath: string, download: () => Promise<void>): Promise<void> {
+  downloadingPaths.set(bookPath, (downloadingPaths.get(bookPath) ?? 0) + 1);
+  try {
+    await download();
+  } finally {
+    const count = (downloadingPaths.get(bookPath) ?? 1) - 1;
+    if (count > 0) {
+      downloadingPaths.set(bookPath, count);
+    } else {
+      downloadingPaths.delete(bookPath);
+    }
   }
+}
 
-  console.log(`Auto-downloading ${booksToDownload.length} books from catalog`);
+// Books planned by the smart offline mode. The downloads it queued finish after its run, they must not evict them.
+let smartOfflinePaths: ReadonlySet<string> = new Set();
 
-  // Download books sequentially to avoid overwhelming the connection
-  for (const book of booksToDownload) {
-    // Check if download was cancelled
-    if (signal.aborted) {
-      console.log('Auto-download cancelled');
-      autoDownloadAbortController = null;
-      return;
-    }
+export function setSmartOfflinePaths(paths: Iterable<string>): void {
+  smartOfflinePaths = new Set(paths);
+}
 
-    try {
-      await downloadBookForOffline(apiClient, book, undefined, signal);
-      console.log(`Downloaded ${book.title}`);
-    } catch (error) {
-      if (error instanceof Error && error.message === 'Download cancelled') {
-        console.log('Auto-download cancelled');
-        autoDownloadAbortController = null;
-        return;
-      }
-      console.error(`Failed to auto-download ${book.title}:`, error);
-      // Continue with next book even if one fails
+// Evict the least recently used books until the cache fits in the storage budget.
+// Books in progress, pinned books, the books planned by the smart offline mode and the protected books are never evicted.
+export async function enforceStorageBudget(protectedPaths: Iterable<string> = []): Promise<string[]> {
+  const settings = await getSettings();
+  const budgetBytes = getStorageBudgetBytes(settings.storageBudgetMB);
+  // The whole catalog is kept offline, evicted books would be downloaded again on the next refresh
+  if (budgetBytes === null || settings.autoDownloadNewBooks) {
+    return [];
+  }
+
+  const [usage, localReadingList] = await Promise.all([getCacheUsage(), getLocalReadingList()]);
+  const protectedSet = new Set([...protectedPaths, ...downloadingPaths.keys(), ...smartOfflinePaths]);
+  for (const [path, item] of localReadingList) {
+    if (!item.completed) {
+      protectedSet.add(path);
     }
   }
 
-  console.log('Auto-download completed');
-  autoDownloadAbortController = null;
+  const evictedPaths = selectBooksToEvict(usage, budgetBytes, protectedSet);
+  for (const path of evictedPaths) {
+    cleanupCoverUrlCache(path);
+    await removeCachedBook(path);
+  }
+  return evictedPaths;
 }
 
-// Cancel ongoing auto-download
-export function cancelAutoDownload(): void {
-  if (autoDownloadAbortController) {
-    autoDownloadAbortController.abort();
-    autoDownloadAbortController = null;
-    console.log('Auto-download cancelled by user');
-  }
+// Pages are cached one at a time, only run one enforcement at a time and skip the requests made meanwhile
+function scheduleStorageBudgetEnforcement(bookPath: string): void {
+  if (storageBudgetEnforcement) return;
+
+  storageBudgetEnforcement = enforceStorageBudget([bookPath])
+    .then(() => undefined)
+    .catch(err => console.error('Failed to enforce storage budget:', err))
+    .finally(() => {
+      storageBudgetEnforcement = null;
+    });
 }
 
 // Clean up stale data
@@ -365,10 +545,14 @@ export async function performCleanup(
   const completedPaths = new Set(
     readingList.filter(item => item.completed).map(item => item.bookPath)
   );
-  for (const path of completedPaths) {
+  const removedPaths = await cleanupCompletedBooks(completedPaths);
+  for (const path of removedPaths) {
     cleanupCoverUrlCache(path);
   }
-  await cleanupCompletedBooks(completedPaths);
+
+  await enforceStorageBudget(
+    readingList.filter(item => !item.completed).map(item => item.bookPath)
+  );
 }
 
 // Get download status for a book
@@ -405,6 +589,21 @@ export async function getBookCacheStatus(bookPath: string, pageCount: number): P
   };
 }
 
+// Get reading history, falling back to the offline copy when the server can't be reached
+export async function getReadingHistoryWithCache(apiClient: ApiClient | null): Promise<ReadingHistoryItemResponse[]> {
+  if (apiClient && isOnline()) {
+    try {
+      const response = await apiClient.getReadingHistory();
+      await saveLocalReadingHistory(response.items);
+      return response.items;
+    } catch (error) {
+      console.error('Failed to fetch reading history, using offline copy:', error);
+    }
+  }
+
+  return getLocalReadingHistory();
+}
+
 // Get all cached books info
 export async function getAllCachedBooksInfo(): Promise<Map<string, { fullyDownloaded: boolean }>> {
   const books = await getCachedBooks();
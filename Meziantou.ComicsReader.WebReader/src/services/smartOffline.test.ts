@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runSmartOffline, stopSmartOffline } from '../services/smartOffline';
+import { ApiClient } from '../services/apiClient';
+import * as storage from '../services/storage';
+import * as offlineService from '../services/offlineService';
+import * as downloadQueue from '../services/downloadQueue';
+import type { BookResponse } from '../types';
+
+vi.mock('../services/storage');
+vi.mock('../services/offlineService');
+vi.mock('../services/downloadQueue');
+
+function createBook(path: string, overrides: Partial<BookResponse> = {}): BookResponse {
+  return {
+    path,
+    title: path,
+    pageCount: 10,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+const options = { pageCount: 3, bookCount: 1 };
+
+describe('Smart Offline', () => {
+  let mockApiClient: ApiClient;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockApiClient = {
+      getPage: vi.fn().mockResolvedValue(new Blob(['page'])),
+    } as unknown as ApiClient;
+    vi.mocked(offlineService.isOnline).mockReturnValue(true);
+    vi.mocked(offlineService.isOnMeteredConnection).mockReturnValue(false);
+    vi.mocked(storage.getCachedBooks).mockResolvedValue([]);
+    vi.mocked(storage.getCacheUsage).mockResolvedValue([]);
+    vi.mocked(storage.getCachedPageIndices).mockResolvedValue([]);
+  });
+
+  it('should download the missing next pages of the books in progress', async () => {
+    const book = createBook('in-progress', { currentPage: 4 });
+    vi.mocked(storage.getCachedPageIndices).mockResolvedValue([4]);
+
+    await runSmartOffline(mockApiClient, [book], [], options);
+
+    expect(storage.cacheBook).toHaveBeenCalledWith(book, false);
+    expect(offlineService.downloadBookPages).toHaveBeenCalledWith(mockApiClient, book, [5, 6], expect.any(AbortSignal));
+  });
+
+  it('should keep the planned books from the storage budget until smart offline is stopped', async () => {
+    const book = createBook('in-progress', { currentPage: 4 });
+    const next = createBook('next');
+
+    await runSmartOffline(mockApiClient, [book, next], [next], options);
+
+    const [[plannedPaths]] = vi.mocked(offlineService.setSmartOfflinePaths).mock.calls;
+    expect(new Set(plannedPaths)).toEqual(new Set(['next', 'in-progress']));
+    expect(offlineService.enforceStorageBudget).toHaveBeenCalled();
+
+    stopSmartOffline();
+
+    expect(offlineService.setSmartOfflinePaths).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should stop the running prefetch when a new run is requested', async () => {
+    const book = createBook('in-progress', { currentPage: 4 });
+    const signals: AbortSignal[] = [];
+    let releaseFirstRun: () => void = () => {};
+    vi.mocked(offlineService.downloadBookPages).mockImplementation((_client, _book, _pages, signal) => {
+      signals.push(signal!);
+      return signals.length === 1 ? new Promise(resolve => { releaseFirstRun = resolve; }) : Promise.resolve();
+    });
+
+    const firstRun = runSmartOffline(mockApiClient, [book], [], options);
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    await runSmartOffline(mockApiClient, [book], [], options);
+    releaseFirstRun();
+    await firstRun;
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should queue the next books to read that are not downloaded', async () => {
+    const next = [createBook('next-1'), createBook('next-2')];
+
+    await runSmartOffline(mockApiClient, next, next, options);
+
+    expect(downloadQueue.enqueueDownloads).toHaveBeenCalledWith([next[0]], { source: 'smartOffline' });
+  });
+
+  it('should evict completed books, even while offline', async () => {
+    vi.mocked(offlineService.isOnline).mockReturnValue(false);
+    const completed = createBook('completed', { isCompleted: true });
+    vi.mocked(storage.getCacheUsage).mockResolvedValue([
+      { path: 'completed', sizeBytes: 100, lastAccessedAt: '2025-01-01T10:00:00Z' },
+    ]);
+
+    await runSmartOffline(mockApiClient, [completed], [], options);
+
+    expect(storage.removeCachedBook).toHaveBeenCalledWith('completed');
+    expect(mockApiClient.getPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { ApiClient } from './apiClient';
+import {
+  cacheBook,
+  getCachedBooks,
+  getCachedPageIndices,
+  getCacheUsage,
+  removeCachedBook,
+} from './storage';
+import {
+  cleanupCoverUrlCache,
+  downloadBookPages,
+  enforceStorageBudget,
+  isOnline,
+  isOnMeteredConnection,
+  setSmartOfflinePaths,
+} from './offlineService';
+import { enqueueDownloads } from './downloadQueue';
+import { planSmartOffline, type SmartOfflineOptions } from '../utils';
+import type { BookResponse } from '../types';
+
+let isRunning = false;
+let pendingRun: ((signal: AbortSignal) => Promise<void>) | null = null;
+let runController: AbortController | null = null;
+
+// Keep offline what will be read next. Runs are triggered by each change of the progress:
+// only one runs at a time, a new request stops it and only the last one requested meanwhile runs after it.
+export async function runSmartOffline(
+  apiClient: ApiClient | null,
+  books: BookResponse[],
+  nextToRead: BookResponse[],
+  options: SmartOfflineOptions
+): Promise<void> {
+  const run = (signal: AbortSignal) => keepNextBooksOffline(apiClient, books, nextToRead, options, signal);
+  if (isRunning) {
+    pendingRun = run;
+    runController?.abort();
+    return;
+  }
+
+  isRunning = true;
+  try {
+    let next: ((signal: AbortSignal) => Promise<void>) | null = run;
+    while (next) {
+      pendingRun = null;
+      runController = new AbortController();
+      await next(runController.signal);
+      next = pendingRun;
+    }
+  } finally {
+    isRunning = false;
+    pendingRun = null;
+    runController = null;
+  }
+}
+
+// Stop the running prefetch when the smart offline mode is disabled, its books can be evicted again
+export function stopSmartOffline(): void {
+  pendingRun = null;
+  runController?.abort();
+  setSmartOfflinePaths([]);
+}
+
+async function keepNextBooksOffline(
+  apiClient: ApiClient | null,
+  books: BookResponse[],
+  nextToRead: BookResponse[],
+  options: SmartOfflineOptions,
+  signal: AbortSignal
+): Promise<void> {
+  const [cachedBooks, usage] = await Promise.all([getCachedBooks(), getCacheUsage()]);
+  const cachedPaths = new Set([
+    ...cachedBooks.map(b => b.path),
+    ...usage.filter(u => u.sizeBytes > 0).map(u => u.path),
+  ]);
+  const pinnedPaths = new Set(usage.filter(u => u.pinned).map(u => u.path));
+  const plan = planSmartOffline(books, nextToRead, cachedPaths, pinnedPaths, options);
+
+  if (signal.aborted) return;
+
+  // The planned books are kept by every enforcement of the storage budget, until the next plan
+  setSmartOfflinePaths([...plan.books.map(b => b.path), ...plan.pages.map(p => p.book.path)]);
+
+  // Finished books are evicted even while offline
+  for (const path of plan.evictions) {
+    cleanupCoverUrlCache(path);
+    await removeCachedBook(path);
+  }
+
+  if (!apiClient || !isOnline() || isOnMeteredConnection() || signal.aborted) {
+    return;
+  }
+
+  const downloadedPaths = new Set(cachedBooks.filter(b => b.fullyDownloaded).map(b => b.path));
+  const booksToDownload = plan.books.filter(book => !downloadedPaths.has(book.path));
+  if (booksToDownload.length > 0) {
+    await enqueueDownloads(booksToDownload, { source: 'smartOffline' });
+  }
+
+  const cachedBookPaths = new Set(cachedBooks.map(b => b.path));
+  for (const { book, pageIndices } of plan.pages) {
+    if (signal.aborted || !isOnline() || isOnMeteredConnection()) return;
+    if (downloadedPaths.has(book.path)) continue;
+
+    try {
+      const cachedPages = new Set(await getCachedPageIndices(book.path));
+      const missingPages = pageIndices.filter(pageIndex => !cachedPages.has(pageIndex));
+      if (missingPages.length === 0) continue;
+
+      // The book record makes the book available in the catalog while offline
+      if (!cachedBookPaths.has(book.path)) {
+        await cacheBook(book, false);
+      }
+
+      await downloadBookPages(apiClient, book, missingPages, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(`Failed to prefetch pages of ${book.title}:`, err);
+    }
+  }
+
+  await enforceStorageBudget();
+}
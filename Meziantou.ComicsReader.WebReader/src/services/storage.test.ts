@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   getSettings,
   saveSettings,
@@ -10,11 +10,36 @@ import {
   getCachedPage,
   cachePage,
   getCachedPageCount,
+  getCacheUsage,
+  setBookPinned,
+  clearAllCachedPages,
+  cleanupCompletedBooks,
+  getCachedThumbnail,
+  cacheThumbnail,
   addPendingUpdate,
   getPendingUpdates,
   removePendingUpdate,
   updateLocalReadingListItem,
   getLocalReadingList,
+  getReaderPreferences,
+  saveReaderPreferences,
+  getBookmarks,
+  getAllBookmarks,
+  saveBookmark,
+  removeBookmark,
+  addPageTurn,
+  getPageTurns,
+  getBooksFirstSeen,
+  recordBooksFirstSeen,
+  getNewBooks,
+  markBooksAsSeen,
+  getDownloadQueue,
+  saveDownloadQueueItem,
+  removeDownloadQueueItem,
+  getShelves,
+  saveShelf,
+  deleteShelf,
+  FAVORITES_SHELF_ID,
   _resetDBInstance,
 } from '../services/storage';
 import type { AppSettings, BookResponse } from '../types';
@@ -41,6 +66,14 @@ describe('Storage Service', () => {
         token: '',
         autoDownloadNewBooks: false,
         largeFullscreenProgressBar: false,
+        pageLayout: 'single',
+        readingDirection: 'ltr',
+        catalogSortField: 'path',
+        catalogSortDirection: 'asc',
+        storageBudgetMB: 0,
+        smartOffline: false,
+        smartOfflinePageCount: 20,
+        smartOfflineBookCount: 3,
       });
     });
 
@@ -50,6 +83,14 @@ describe('Storage Service', () => {
         token: 'my-token',
         autoDownloadNewBooks: true,
         largeFullscreenProgressBar: true,
+        pageLayout: 'spread',
+        readingDirection: 'rtl',
+        catalogSortField: 'title',
+        catalogSortDirection: 'desc',
+        storageBudgetMB: 512,
+        smartOffline: true,
+        smartOfflinePageCount: 50,
+        smartOfflineBookCount: 5,
       };
 
       await saveSettings(newSettings);
@@ -64,6 +105,14 @@ describe('Storage Service', () => {
         token: 'initial-token',
         autoDownloadNewBooks: false,
         largeFullscreenProgressBar: false,
+        pageLayout: 'single',
+        readingDirection: 'ltr',
+        catalogSortField: 'path',
+        catalogSortDirection: 'asc',
+        storageBudgetMB: 0,
+        smartOffline: false,
+        smartOfflinePageCount: 20,
+        smartOfflineBookCount: 3,
       };
 
       await saveSettings(initialSettings);
@@ -73,6 +122,14 @@ describe('Storage Service', () => {
         token: 'updated-token',
         autoDownloadNewBooks: true,
         largeFullscreenProgressBar: true,
+        pageLayout: 'spread',
+        readingDirection: 'rtl',
+        catalogSortField: 'title',
+        catalogSortDirection: 'desc',
+        storageBudgetMB: 512,
+        smartOffline: true,
+        smartOfflinePageCount: 50,
+        smartOfflineBookCount: 5,
       };
 
       await saveSettings(updatedSettings);
@@ -80,6 +137,30 @@ describe('Storage Service', () => {
 
       expect(retrieved).toEqual(updatedSettings);
     });
+
+    it('should fill settings saved by older versions with defaults', async () => {
+      const legacySettings = {
+        serverUrl: 'https://legacy.example.com',
+        token: 'legacy-token',
+        autoDownloadNewBooks: true,
+        largeFullscreenProgressBar: false,
+      };
+
+      await saveSettings(legacySettings as AppSettings);
+      const retrieved = await getSettings();
+
+      expect(retrieved).toEqual({
+        ...legacySettings,
+        pageLayout: 'single',
+        readingDirection: 'ltr',
+        catalogSortField: 'path',
+        catalogSortDirection: 'asc',
+        storageBudgetMB: 0,
+        smartOffline: false,
+        smartOfflinePageCount: 20,
+        smartOfflineBookCount: 3,
+      });
+    });
   });
 
   describe('Book Cache', () => {
@@ -118,6 +199,7 @@ describe('Storage Service', () => {
       const pageBlob = new Blob(['page'], { type: 'image/jpeg' });
       await cachePage(mockBook.path, 0, pageBlob);
       await cachePage(mockBook.path, 1, pageBlob);
+      await cacheThumbnail(mockBook.path, 0, pageBlob);
 
       // Remove the book
       await removeCachedBook(mockBook.path);
@@ -126,6 +208,7 @@ describe('Storage Service', () => {
       expect(await getCachedCover(mockBook.path)).toBeNull();
       expect(await getCachedPage(mockBook.path, 0)).toBeNull();
       expect(await getCachedPage(mockBook.path, 1)).toBeNull();
+      expect(await getCachedThumbnail(mockBook.path, 0)).toBeNull();
     });
   });
 
@@ -177,6 +260,110 @@ describe('Storage Service', () => {
     });
   });
 
+  describe('Cache Usage', () => {
+    it('should account the size of the cached pages per book', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      await cachePage('test/book', 1, new Blob(['123456']));
+      await cachePage('test/other', 0, new Blob(['12']));
+
+      const usage = await getCacheUsage();
+
+      expect(usage.find(u => u.path === 'test/book')?.sizeBytes).toBe(10);
+      expect(usage.find(u => u.path === 'test/other')?.sizeBytes).toBe(2);
+    });
+
+    it('should not count a page twice when it is cached again', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      await cachePage('test/book', 0, new Blob(['12']));
+
+      const [usage] = await getCacheUsage();
+
+      expect(usage.sizeBytes).toBe(2);
+    });
+
+    it('should record the last access when reading a page', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      const [before] = await getCacheUsage();
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await getCachedPage('test/book', 0);
+
+      await vi.waitFor(async () => {
+        const [after] = await getCacheUsage();
+        expect(after.lastAccessedAt > before.lastAccessedAt).toBe(true);
+      });
+    });
+
+    it('should record the last access of a book only once in a while', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      const [cached] = await getCacheUsage();
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await getCachedPage('test/book', 0);
+      await vi.waitFor(async () => {
+        const [usage] = await getCacheUsage();
+        expect(usage.lastAccessedAt).not.toBe(cached.lastAccessedAt);
+      });
+      const [first] = await getCacheUsage();
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await getCachedPage('test/book', 0);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const [second] = await getCacheUsage();
+
+      expect(second.lastAccessedAt).toBe(first.lastAccessedAt);
+    });
+
+    it('should forget the usage of removed books', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+
+      await removeCachedBook('test/book');
+
+      expect(await getCacheUsage()).toEqual([]);
+    });
+
+    it('should keep pinned books when clearing the pages', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      await cachePage('test/pinned', 0, new Blob(['1234']));
+      await setBookPinned('test/pinned', true);
+
+      await clearAllCachedPages();
+
+      expect(await getCacheUsage()).toEqual([
+        expect.objectContaining({ path: 'test/pinned', sizeBytes: 0, pinned: true }),
+      ]);
+    });
+
+    it('should keep pinned books when cleaning up the completed books', async () => {
+      await cachePage('test/book', 0, new Blob(['1234']));
+      await cachePage('test/pinned', 0, new Blob(['1234']));
+      await setBookPinned('test/pinned', true);
+
+      const removed = await cleanupCompletedBooks(new Set(['test/book', 'test/pinned']));
+
+      expect(removed).toEqual(['test/book']);
+      expect(await getCachedPage('test/pinned', 0)).not.toBeNull();
+      expect(await getCacheUsage()).toEqual([
+        expect.objectContaining({ path: 'test/pinned', sizeBytes: 4, pinned: true }),
+      ]);
+    });
+  });
+
+  describe('Thumbnail Cache', () => {
+    it('should return null for non-existent thumbnail', async () => {
+      const thumbnail = await getCachedThumbnail('nonexistent', 0);
+      expect(thumbnail).toBeNull();
+    });
+
+    it('should cache thumbnails per page', async () => {
+      const blob = new Blob(['thumbnail data'], { type: 'image/webp' });
+      await cacheThumbnail('test/book', 3, blob);
+
+      expect(await getCachedThumbnail('test/book', 3)).not.toBeNull();
+      expect(await getCachedThumbnail('test/book', 4)).toBeNull();
+    });
+  });
+
   describe('Pending Updates', () => {
     it('should add and retrieve pending updates', async () => {
       await addPendingUpdate('book1', 5);
@@ -239,4 +426,166 @@ describe('Storage Service', () => {
       expect(list.get('book1')?.completed).toBe(true);
     });
   });
+
+  describe('Reader Preferences', () => {
+    it('should return null when no preferences exist', async () => {
+      expect(await getReaderPreferences('book', 'book1')).toBeNull();
+    });
+
+    it('should store book and directory preferences separately', async () => {
+      await saveReaderPreferences('book', 'manga/t01.cbz', { readingDirection: 'ltr' });
+      await saveReaderPreferences('directory', 'manga/t01.cbz', { readingDirection: 'rtl' });
+
+      expect(await getReaderPreferences('book', 'manga/t01.cbz')).toEqual({ readingDirection: 'ltr' });
+      expect(await getReaderPreferences('directory', 'manga/t01.cbz')).toEqual({ readingDirection: 'rtl' });
+    });
+
+    it('should remove preferences once every override is cleared', async () => {
+      await saveReaderPreferences('directory', 'manga', { readingDirection: 'rtl' });
+      await saveReaderPreferences('directory', 'manga', { readingDirection: undefined });
+
+      expect(await getReaderPreferences('directory', 'manga')).toBeNull();
+    });
+  });
+
+  describe('Bookmarks', () => {
+    it('should return bookmarks of a book sorted by page', async () => {
+      await saveBookmark({ bookPath: 'book1', pageIndex: 12, note: '', createdAt: '2024-01-01T00:00:00Z' });
+      await saveBookmark({ bookPath: 'book1', pageIndex: 3, note: 'Great panel', createdAt: '2024-01-02T00:00:00Z' });
+      await saveBookmark({ bookPath: 'book2', pageIndex: 0, note: '', createdAt: '2024-01-03T00:00:00Z' });
+
+      const bookmarks = await getBookmarks('book1');
+      expect(bookmarks.map(b => b.pageIndex)).toEqual([3, 12]);
+      expect(bookmarks[0].note).toBe('Great panel');
+      expect(await getAllBookmarks()).toHaveLength(3);
+    });
+
+    it('should update the note of an existing bookmark', async () => {
+      await saveBookmark({ bookPath: 'book1', pageIndex: 3, note: '', createdAt: '2024-01-01T00:00:00Z' });
+      await saveBookmark({ bookPath: 'book1', pageIndex: 3, note: 'Updated', createdAt: '2024-01-01T00:00:00Z' });
+
+      const bookmarks = await getBookmarks('book1');
+      expect(bookmarks).toHaveLength(1);
+      expect(bookmarks[0].note).toBe('Updated');
+    });
+
+    it('should remove a bookmark', async () => {
+      await saveBookmark({ bookPath: 'book1', pageIndex: 3, note: '', createdAt: '2024-01-01T00:00:00Z' });
+      await removeBookmark('book1', 3);
+
+      expect(await getBookmarks('book1')).toEqual([]);
+    });
+
+    it('should keep bookmarks when the book is removed from the cache', async () => {
+      await saveBookmark({ bookPath: 'book1', pageIndex: 3, note: '', createdAt: '2024-01-01T00:00:00Z' });
+      await removeCachedBook('book1');
+
+      expect(await getBookmarks('book1')).toHaveLength(1);
+    });
+  });
+
+  describe('Page Turns', () => {
+    it('should return page turns ordered by timestamp', async () => {
+      await addPageTurn({ bookPath: 'book1', pageIndex: 1, timestamp: '2025-01-02T10:00:00Z', durationMs: 5000 });
+      await addPageTurn({ bookPath: 'book1', pageIndex: 0, timestamp: '2025-01-01T10:00:00Z', durationMs: 8000 });
+      await addPageTurn({ bookPath: 'book1', pageIndex: 0, timestamp: '2025-01-03T10:00:00Z', durationMs: 3000 });
+
+      const pageTurns = await getPageTurns();
+
+      expect(pageTurns.map(p => p.durationMs)).toEqual([8000, 5000, 3000]);
+    });
+  });
+
+  describe('Books First Seen', () => {
+    it('should keep the date a book was first recorded', async () => {
+      await recordBooksFirstSeen(['book1'], new Date('2025-01-01T10:00:00Z'));
+      const firstSeen = await recordBooksFirstSeen(['book1', 'book2'], new Date('2025-01-02T10:00:00Z'));
+
+      expect(firstSeen.get('book1')).toBe('2025-01-01T10:00:00.000Z');
+      expect(firstSeen.get('book2')).toBe('2025-01-02T10:00:00.000Z');
+      expect(await getBooksFirstSeen()).toEqual(firstSeen);
+    });
+
+    it('should not mark the books of the first snapshot as new', async () => {
+      await recordBooksFirstSeen(['book1', 'book2']);
+
+      expect(await getNewBooks()).toEqual(new Set());
+    });
+
+    it('should mark the books added after the first snapshot as new until dismissed', async () => {
+      await recordBooksFirstSeen(['book1'], new Date('2025-01-01T10:00:00Z'));
+      await recordBooksFirstSeen(['book1', 'book2', 'book3'], new Date('2025-01-02T10:00:00Z'));
+
+      expect(await getNewBooks()).toEqual(new Set(['book2', 'book3']));
+
+      await markBooksAsSeen(['book2', 'unknown']);
+
+      expect(await getNewBooks()).toEqual(new Set(['book3']));
+      expect((await getBooksFirstSeen()).get('book2')).toBe('2025-01-02T10:00:00.000Z');
+    });
+  });
+
+  describe('Shelves', () => {
+    it('should always return the favorites first', async () => {
+      const shelves = await getShelves();
+
+      expect(shelves).toHaveLength(1);
+      expect(shelves[0]).toMatchObject({ id: FAVORITES_SHELF_ID, bookPaths: [] });
+    });
+
+    it('should save shelves and sort them by creation date', async () => {
+      await saveShelf({ id: 'b', name: 'Best of 2025', bookPaths: ['book2', 'book1'], createdAt: '2025-02-01T00:00:00Z' });
+      await saveShelf({ id: 'a', name: 'Read with kids', bookPaths: [], createdAt: '2025-01-01T00:00:00Z' });
+      await saveShelf({ id: FAVORITES_SHELF_ID, name: 'Favorites', bookPaths: ['book1'], createdAt: '2025-03-01T00:00:00Z' });
+
+      const shelves = await getShelves();
+
+      expect(shelves.map(s => s.id)).toEqual([FAVORITES_SHELF_ID, 'a', 'b']);
+      expect(shelves[0].bookPaths).toEqual(['book1']);
+      expect(shelves[2].bookPaths).toEqual(['book2', 'book1']);
+    });
+
+    it('should delete shelves', async () => {
+      await saveShelf({ id: 'a', name: 'Shelf', bookPaths: [], createdAt: '2025-01-01T00:00:00Z' });
+      await deleteShelf('a');
+
+      expect((await getShelves()).map(s => s.id)).toEqual([FAVORITES_SHELF_ID]);
+    });
+  });
+
+  describe('Download Queue', () => {
+    const book: BookResponse = {
+      path: 'test/book',
+      title: 'Test Book',
+      pageCount: 10,
+      fileSize: 1000,
+      coverImageFileName: null,
+      directory: 'test',
+      firstDirectory: 'test',
+      currentPage: null,
+      isCompleted: false,
+      lastRead: null,
+    };
+
+    it('should save, update and remove queued books', async () => {
+      const item = {
+        path: book.path,
+        book,
+        status: 'queued' as const,
+        source: 'user' as const,
+        priority: 0,
+        addedAt: '2025-01-01T00:00:00Z',
+        attempts: 0,
+        downloadedPages: 0,
+      };
+      await saveDownloadQueueItem(item);
+      await saveDownloadQueueItem({ ...item, status: 'paused', downloadedPages: 4 });
+
+      expect(await getDownloadQueue()).toEqual([{ ...item, status: 'paused', downloadedPages: 4 }]);
+
+      await removeDownloadQueueItem(book.path);
+
+      expect(await getDownloadQueue()).toEqual([]);
+    });
+  });
 });
@@ -1,9 +1,9 @@
-import type { AppSettings, BookResponse, PendingProgressUpdate } from '../types';
+import type { AppSettings, BookCacheUsage, Bookmark, BookResponse, DownloadQueueItem, PageTurnEvent, PendingProgressUpdate, PendingUpdateKind, ReadingHistoryItemResponse, ReaderPreferences, ReaderPreferencesScope, Shelf } from '../types';
 
 const DB_NAME = 'comics-reader-db';
-const DB_VERSION = 1;
+const DB_VERSION = 10;
 
-type StoreName = 'settings' | 'books' | 'covers' | 'pages' | 'pendingUpdates' | 'readingList';
+type StoreName = 'settings' | 'books' | 'covers' | 'pages' | 'thumbnails' | 'pendingUpdates' | 'readingList' | 'readingHistory' | 'readerPreferences' | 'bookmarks' | 'pageTurns' | 'booksFirstSeen' | 'shelves' | 'cacheUsage' | 'downloadQueue';
 
 interface CachedBookRecord {
   path: string;
@@ -21,6 +21,14 @@ interface CachedPageRecord {
   bookPath: string;
   pageIndex: number;
   blob: Blob;
+  // Missing for the pages cached before the storage budget was introduced
+  size?: number;
+}
+
+interface CachedThumbnailRecord {
+  bookPath: string;
+  pageIndex: number;
+  blob: Blob;
 }
 
 interface ReadingListRecord {
@@ -30,8 +38,28 @@ interface ReadingListRecord {
   lastRead: string;
 }
 
+// Stored alongside the CachedBookRecord of the book, in its own store because pages are also cached
+// while reading books that were never downloaded
+type CacheUsageRecord = BookCacheUsage;
+
+interface BookFirstSeenRecord {
+  path: string;
+  firstSeen: string;
+  // Set until the book is opened or dismissed. Missing for the books of the first snapshot.
+  isNew?: boolean;
+}
+
+interface ReaderPreferencesRecord extends ReaderPreferences {
+  scope: ReaderPreferencesScope;
+  path: string;
+}
+
 let dbInstance: IDBDatabase | null = null;
 
+// Last time the access to each book was recorded in the cache usage, in ms
+const lastRecordedAccess = new Map<string, number>();
+const ACCESS_RECORD_INTERVAL_MS = 5 * 60 * 1000;
+
 function requestToPromise<TResult>(request: IDBRequest<TResult>): Promise<TResult> {
   return new Promise<TResult>((resolve, reject) => {
     request.onsuccess = () => resolve(request.result);
@@ -73,6 +101,11 @@ function openDatabase(): Promise<IDBDatabase> {
         pagesStore.createIndex('by-book-path', 'bookPath');
       }
 
+      if (!db.objectStoreNames.contains('thumbnails')) {
+        const thumbnailsStore = db.createObjectStore('thumbnails', { keyPath: ['bookPath', 'pageIndex'] });
+        thumbnailsStore.createIndex('by-book-path', 'bookPath');
+      }
+
       if (!db.objectStoreNames.contains('pendingUpdates')) {
         const pendingStore = db.createObjectStore('pendingUpdates', { keyPath: 'id' });
         pendingStore.createIndex('by-timestamp', 'timestamp');
@@ -81,6 +114,59 @@ function openDatabase(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains('readingList')) {
         db.createObjectStore('readingList', { keyPath: 'bookPath' });
       }
+
+      if (!db.objectStoreNames.contains('readingHistory')) {
+        db.createObjectStore('readingHistory', { keyPath: 'bookPath' });
+      }
+
+      if (!db.objectStoreNames.contains('readerPreferences')) {
+        db.createObjectStore('readerPreferences', { keyPath: ['scope', 'path'] });
+      }
+
+      if (!db.objectStoreNames.contains('bookmarks')) {
+        const bookmarksStore = db.createObjectStore('bookmarks', { keyPath: ['bookPath', 'pageIndex'] });
+        bookmarksStore.createIndex('by-book-path', 'bookPath');
+      }
+
+      if (!db.objectStoreNames.contains('pageTurns')) {
+        const pageTurnsStore = db.createObjectStore('pageTurns', { keyPath: 'id', autoIncrement: true });
+        pageTurnsStore.createIndex('by-timestamp', 'timestamp');
+      }
+
+      if (!db.objectStoreNames.contains('booksFirstSeen')) {
+        db.createObjectStore('booksFirstSeen', { keyPath: 'path' });
+      }
+
+      if (!db.objectStoreNames.contains('shelves')) {
+        db.createObjectStore('shelves', { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains('cacheUsage')) {
+        const usageStore = db.createObjectStore('cacheUsage', { keyPath: 'path' });
+
+        // Account for the pages cached by the previous versions
+        const usage = new Map<string, CacheUsageRecord>();
+        const now = new Date().toISOString();
+        const cursorRequest = request.transaction!.objectStore('pages').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            const page = cursor.value as CachedPageRecord;
+            const record = usage.get(page.bookPath) ?? { path: page.bookPath, sizeBytes: 0, lastAccessedAt: now };
+            record.sizeBytes += page.blob?.size ?? 0;
+            usage.set(page.bookPath, record);
+            cursor.continue();
+          } else {
+            for (const record of usage.values()) {
+              usageStore.put(record);
+            }
+          }
+        };
+      }
+
+      if (!db.objectStoreNames.contains('downloadQueue')) {
+        db.createObjectStore('downloadQueue', { keyPath: 'path' });
+      }
     };
   });
 }
@@ -172,11 +258,20 @@ const DEFAULT_SETTINGS: AppSettings = {
   token: '',
   autoDownloadNewBooks: false,
   largeFullscreenProgressBar: false,
+  pageLayout: 'single',
+  readingDirection: 'ltr',
+  catalogSortField: 'path',
+  catalogSortDirection: 'asc',
+  storageBudgetMB: 0,
+  smartOffline: false,
+  smartOfflinePageCount: 20,
+  smartOfflineBookCount: 3,
 };
 
 export async function getSettings(): Promise<AppSettings> {
   const settings = await getFromStore<AppSettings>('settings', 'app-settings');
-  return settings ?? DEFAULT_SETTINGS;
+  // Merge with defaults so settings saved by older versions get values for new options
+  return { ...DEFAULT_SETTINGS, ...settings };
 }
 
 export async function saveSettings(settings: AppSettings): Promise<void> {
@@ -218,13 +313,15 @@ export async function isBookFullyDownloaded(path: string): Promise<boolean> {
 
 export async function removeCachedBook(path: string): Promise<void> {
   const db = await getDB();
-  const transaction = db.transaction(['books', 'covers', 'pages'], 'readwrite');
+  const transaction = db.transaction(['books', 'covers', 'pages', 'thumbnails', 'cacheUsage'], 'readwrite');
   const booksStore = transaction.objectStore('books');
   const coversStore = transaction.objectStore('covers');
   const pagesStore = transaction.objectStore('pages');
+  const thumbnailsStore = transaction.objectStore('thumbnails');
 
   await requestToPromise(booksStore.delete(path));
   await requestToPromise(coversStore.delete(path));
+  await requestToPromise(transaction.objectStore('cacheUsage').delete(path));
 
   const pagesIndex = pagesStore.index('by-book-path');
   const pageKeys = await requestToPromise(pagesIndex.getAllKeys(path));
@@ -232,6 +329,12 @@ export async function removeCachedBook(path: string): Promise<void> {
     await requestToPromise(pagesStore.delete(key));
   }
 
+  const thumbnailsIndex = thumbnailsStore.index('by-book-path');
+  const thumbnailKeys = await requestToPromise(thumbnailsIndex.getAllKeys(path));
+  for (const key of thumbnailKeys) {
+    await requestToPromise(thumbnailsStore.delete(key));
+  }
+
   await transactionToPromise(transaction);
 }
 
@@ -244,13 +347,60 @@ export async function cacheCover(path: string, blob: Blob): Promise<void> {
   await putInStore('covers', { path, blob } satisfies CachedCoverRecord);
 }
 
+// Reading a page records the access time of its book, used to evict the least recently used books first
 export async function getCachedPage(bookPath: string, pageIndex: number): Promise<Blob | null> {
   const cached = await getFromStore<CachedPageRecord>('pages', [bookPath, pageIndex]);
+  if (cached) {
+    recordBookAccess(bookPath);
+  }
   return cached?.blob ?? null;
 }
 
+// The eviction only needs an approximate last access, so don't make every page read wait for a write
+function recordBookAccess(bookPath: string): void {
+  const now = Date.now();
+  const lastRecorded = lastRecordedAccess.get(bookPath);
+  if (lastRecorded !== undefined && now - lastRecorded < ACCESS_RECORD_INTERVAL_MS) return;
+
+  lastRecordedAccess.set(bookPath, now);
+  updateLastAccess(bookPath, new Date(now)).catch(err => {
+    lastRecordedAccess.delete(bookPath);
+    console.error('Failed to record book access:', err);
+  });
+}
+
+async function updateLastAccess(bookPath: string, date: Date): Promise<void> {
+  const db = await getDB();
+  const transaction = db.transaction('cacheUsage', 'readwrite');
+  const store = transaction.objectStore('cacheUsage');
+
+  // The book may have been removed meanwhile
+  const usage = await requestToPromise(store.get(bookPath) as IDBRequest<CacheUsageRecord | undefined>);
+  if (usage) {
+    await requestToPromise(store.put({ ...usage, lastAccessedAt: date.toISOString() } satisfies CacheUsageRecord));
+  }
+
+  await transactionToPromise(transaction);
+}
+
 export async function cachePage(bookPath: string, pageIndex: number, blob: Blob): Promise<void> {
-  await putInStore('pages', { bookPath, pageIndex, blob } satisfies CachedPageRecord);
+  const db = await getDB();
+  const transaction = db.transaction(['pages', 'cacheUsage'], 'readwrite');
+  const pagesStore = transaction.objectStore('pages');
+  const usageStore = transaction.objectStore('cacheUsage');
+
+  const previous = await requestToPromise(pagesStore.get([bookPath, pageIndex]) as IDBRequest<CachedPageRecord | undefined>);
+  await requestToPromise(pagesStore.put({ bookPath, pageIndex, blob, size: blob.size } satisfies CachedPageRecord));
+
+  const usage = await requestToPromise(usageStore.get(bookPath) as IDBRequest<CacheUsageRecord | undefined>);
+  await requestToPromise(usageStore.put({
+    ...usage,
+    path: bookPath,
+    sizeBytes: Math.max(0, (usage?.sizeBytes ?? 0) + blob.size - (previous?.size ?? 0)),
+    lastAccessedAt: new Date().toISOString(),
+  } satisfies CacheUsageRecord));
+
+  await transactionToPromise(transaction);
 }
 
 export async function getCachedPageCount(bookPath: string): Promise<number> {
@@ -262,13 +412,23 @@ export async function getCachedPageIndices(bookPath: string): Promise<number[]>
   return pages.map(p => p.pageIndex).sort((a, b) => a - b);
 }
 
-export async function addPendingUpdate(bookPath: string, pageIndex: number): Promise<void> {
+export async function getCachedThumbnail(bookPath: string, pageIndex: number): Promise<Blob | null> {
+  const cached = await getFromStore<CachedThumbnailRecord>('thumbnails', [bookPath, pageIndex]);
+  return cached?.blob ?? null;
+}
+
+export async function cacheThumbnail(bookPath: string, pageIndex: number, blob: Blob): Promise<void> {
+  await putInStore('thumbnails', { bookPath, pageIndex, blob } satisfies CachedThumbnailRecord);
+}
+
+export async function addPendingUpdate(bookPath: string, pageIndex: number, kind: PendingUpdateKind = 'progress'): Promise<void> {
   const id = `${bookPath}-${Date.now()}`;
   const update: PendingProgressUpdate = {
     id,
     bookPath,
     pageIndex,
     timestamp: new Date().toISOString(),
+    kind,
   };
   await putInStore('pendingUpdates', update);
 }
@@ -328,6 +488,166 @@ export async function syncReadingListFromServer(
   await transactionToPromise(transaction);
 }
 
+export async function getLocalReadingHistory(): Promise<ReadingHistoryItemResponse[]> {
+  const items = await getAllFromStore<ReadingHistoryItemResponse>('readingHistory');
+  return items.sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+}
+
+// Replace the offline copy of the reading history with the server's
+export async function saveLocalReadingHistory(items: ReadingHistoryItemResponse[]): Promise<void> {
+  const db = await getDB();
+  const transaction = db.transaction('readingHistory', 'readwrite');
+  const store = transaction.objectStore('readingHistory');
+
+  await requestToPromise(store.clear());
+  for (const item of items) {
+    await requestToPromise(store.put(item));
+  }
+
+  await transactionToPromise(transaction);
+}
+
+export async function getReaderPreferences(scope: ReaderPreferencesScope, path: string): Promise<ReaderPreferences | null> {
+  const record = await getFromStore<ReaderPreferencesRecord>('readerPreferences', [scope, path]);
+  if (record === undefined) {
+    return null;
+  }
+
+  const preferences: Partial<ReaderPreferencesRecord> = { ...record };
+  delete preferences.scope;
+  delete preferences.path;
+  return preferences;
+}
+
+export async function saveReaderPreferences(
+  scope: ReaderPreferencesScope,
+  path: string,
+  preferences: ReaderPreferences
+): Promise<void> {
+  const existing = await getFromStore<ReaderPreferencesRecord>('readerPreferences', [scope, path]);
+  const merged: ReaderPreferencesRecord = { ...existing, ...preferences, scope, path };
+
+  // Delete the record once every override has been cleared
+  const hasOverrides = Object.entries(merged).some(([key, value]) => key !== 'scope' && key !== 'path' && value !== undefined);
+  if (hasOverrides) {
+    await putInStore('readerPreferences', merged);
+  } else {
+    await deleteFromStore('readerPreferences', [scope, path]);
+  }
+}
+
+// Bookmarks are user data: they are kept when the book is removed from the offline cache
+export async function getBookmarks(bookPath: string): Promise<Bookmark[]> {
+  const bookmarks = await getAllFromStoreIndex<Bookmark>('bookmarks', 'by-book-path', bookPath);
+  return bookmarks.sort((a, b) => a.pageIndex - b.pageIndex);
+}
+
+export async function getAllBookmarks(): Promise<Bookmark[]> {
+  return getAllFromStore<Bookmark>('bookmarks');
+}
+
+export async function saveBookmark(bookmark: Bookmark): Promise<void> {
+  await putInStore('bookmarks', bookmark);
+}
+
+export async function removeBookmark(bookPath: string, pageIndex: number): Promise<void> {
+  await deleteFromStore('bookmarks', [bookPath, pageIndex]);
+}
+
+export async function addPageTurn(event: PageTurnEvent): Promise<void> {
+  await putInStore('pageTurns', event);
+}
+
+export async function getPageTurns(): Promise<PageTurnEvent[]> {
+  return getAllFromStoreIndex<PageTurnEvent>('pageTurns', 'by-timestamp');
+}
+
+// Favorites are a shelf that always exists, even before the first book is added
+export const FAVORITES_SHELF_ID = 'favorites';
+
+export async function getShelves(): Promise<Shelf[]> {
+  const shelves = await getAllFromStore<Shelf>('shelves');
+  const favorites = shelves.find(shelf => shelf.id === FAVORITES_SHELF_ID)
+    ?? { id: FAVORITES_SHELF_ID, name: 'Favorites', bookPaths: [], createdAt: new Date(0).toISOString() };
+
+  const customShelves = shelves
+    .filter(shelf => shelf.id !== FAVORITES_SHELF_ID)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  return [favorites, ...customShelves];
+}
+
+export async function saveShelf(shelf: Shelf): Promise<void> {
+  await putInStore('shelves', shelf);
+}
+
+export async function deleteShelf(id: string): Promise<void> {
+  await deleteFromStore('shelves', id);
+}
+
+export async function getDownloadQueue(): Promise<DownloadQueueItem[]> {
+  return getAllFromStore<DownloadQueueItem>('downloadQueue');
+}
+
+export async function saveDownloadQueueItem(item: DownloadQueueItem): Promise<void> {
+  await putInStore('downloadQueue', item);
+}
+
+export async function removeDownloadQueueItem(path: string): Promise<void> {
+  await deleteFromStore('downloadQueue', path);
+}
+
+// The server doesn't know when a book was added, so remember when each book first appeared in the catalog
+export async function getBooksFirstSeen(): Promise<Map<string, string>> {
+  const records = await getAllFromStore<BookFirstSeenRecord>('booksFirstSeen');
+  return new Map(records.map(record => [record.path, record.firstSeen]));
+}
+
+// The first snapshot records the existing library, its books are not new
+export async function recordBooksFirstSeen(paths: string[], now: Date = new Date()): Promise<Map<string, string>> {
+  const db = await getDB();
+  const transaction = db.transaction('booksFirstSeen', 'readwrite');
+  const store = transaction.objectStore('booksFirstSeen');
+
+  const records = await requestToPromise(store.getAll() as IDBRequest<BookFirstSeenRecord[]>);
+  const isFirstSnapshot = records.length === 0;
+  const firstSeen = new Map(records.map(record => [record.path, record.firstSeen]));
+  for (const path of paths) {
+    if (!firstSeen.has(path)) {
+      const record: BookFirstSeenRecord = { path, firstSeen: now.toISOString() };
+      if (!isFirstSnapshot) {
+        record.isNew = true;
+      }
+
+      firstSeen.set(path, record.firstSeen);
+      await requestToPromise(store.put(record));
+    }
+  }
+
+  await transactionToPromise(transaction);
+  return firstSeen;
+}
+
+// Books added to the catalog since the first snapshot that were not opened or dismissed yet
+export async function getNewBooks(): Promise<Set<string>> {
+  const records = await getAllFromStore<BookFirstSeenRecord>('booksFirstSeen');
+  return new Set(records.filter(record => record.isNew).map(record => record.path));
+}
+
+export async function markBooksAsSeen(paths: string[]): Promise<void> {
+  const db = await getDB();
+  const transaction = db.transaction('booksFirstSeen', 'readwrite');
+  const store = transaction.objectStore('booksFirstSeen');
+
+  for (const path of paths) {
+    const record = await requestToPromise(store.get(path) as IDBRequest<BookFirstSeenRecord | undefined>);
+    if (record?.isNew) {
+      await requestToPromise(store.put({ path: record.path, firstSeen: record.firstSeen }));
+    }
+  }
+
+  await transactionToPromise(transaction);
+}
+
 export async function cleanupRemovedBooks(availableBookPaths: Set<string>): Promise<void> {
   const cachedBooks = await getAllFromStore<CachedBookRecord>('books');
 
@@ -338,14 +658,36 @@ export async function cleanupRemovedBooks(availableBookPaths: Set<string>): Prom
   }
 }
 
-export async function cleanupCompletedBooks(completedBookPaths: Set<string>): Promise<void> {
-  for (const path of completedBookPaths) {
+// Pinned books are kept, with their pin. Returns the paths of the removed books.
+export async function cleanupCompletedBooks(completedBookPaths: Set<string>): Promise<string[]> {
+  const usage = await getAllFromStore<CacheUsageRecord>('cacheUsage');
+  const pinnedPaths = new Set(usage.filter(record => record.pinned).map(record => record.path));
+
+  const removedPaths = [...completedBookPaths].filter(path => !pinnedPaths.has(path));
+  for (const path of removedPaths) {
     await removeCachedBook(path);
   }
+  return removedPaths;
 }
 
 export async function clearAllCachedPages(): Promise<void> {
   await clearStore('pages');
+  await clearStore('thumbnails');
+
+  // Keep the pinned books, without any page
+  const db = await getDB();
+  const transaction = db.transaction('cacheUsage', 'readwrite');
+  const store = transaction.objectStore('cacheUsage');
+  const usage = await requestToPromise(store.getAll() as IDBRequest<CacheUsageRecord[]>);
+  for (const record of usage) {
+    if (record.pinned) {
+      await requestToPromise(store.put({ ...record, sizeBytes: 0 }));
+    } else {
+      await requestToPromise(store.delete(record.path));
+    }
+  }
+
+  await transactionToPromise(transaction);
 }
 
 export async function clearAllCachedCovers(): Promise<void> {
@@ -354,13 +696,29 @@ export async function clearAllCachedCovers(): Promise<void> {
 
 export async function clearAllCachedBooks(): Promise<void> {
   const db = await getDB();
-  const transaction = db.transaction(['books', 'covers', 'pages'], 'readwrite');
+  const transaction = db.transaction(['books', 'covers', 'pages', 'thumbnails', 'cacheUsage'], 'readwrite');
   await requestToPromise(transaction.objectStore('books').clear());
   await requestToPromise(transaction.objectStore('covers').clear());
   await requestToPromise(transaction.objectStore('pages').clear());
+  await requestToPromise(transaction.objectStore('thumbnails').clear());
+  await requestToPromise(transaction.objectStore('cacheUsage').clear());
   await transactionToPromise(transaction);
 }
 
+export async function getCacheUsage(): Promise<BookCacheUsage[]> {
+  return getAllFromStore<CacheUsageRecord>('cacheUsage');
+}
+
+export async function setBookPinned(path: string, pinned: boolean): Promise<void> {
+  const usage = await getFromStore<CacheUsageRecord>('cacheUsage', path);
+  await putInStore('cacheUsage', {
+    path,
+    sizeBytes: usage?.sizeBytes ?? 0,
+    lastAccessedAt: usage?.lastAccessedAt ?? new Date().toISOString(),
+    pinned,
+  } satisfies CacheUsageRecord);
+}
+
 export async function getCacheSizeEstimates(): Promise<{
   books: number;
   covers: number;
@@ -387,6 +745,7 @@ export async function getCacheSizeEstimates(): Promise<{
 }
 
 export function _resetDBInstance(): void {
+  lastRecordedAccess.clear();
   if (dbInstance !== null) {
     dbInstance.close();
     dbInstance = null;
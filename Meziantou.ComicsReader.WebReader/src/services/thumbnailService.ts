@@ -0,0 +1,65 @@
+import { getCachedPage, getCachedThumbnail, cacheThumbnail } from './storage';
+
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_TYPE = 'image/webp';
+const THUMBNAIL_QUALITY = 0.7;
+
+// Downscale a page image to a thumbnail
+export async function createThumbnail(blob: Blob, width: number = THUMBNAIL_WIDTH): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = Math.min(1, width / bitmap.width);
+    const targetWidth = Math.max(1, Math.round(bitmap.width * scale));
+    const targetHeight = Math.max(1, Math.round(bitmap.height * scale));
+
+    // Prefer OffscreenCanvas, fall back to a detached canvas element (Safari < 16.4)
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(targetWidth, targetHeight);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context not available');
+      }
+
+      context.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+      return await canvas.convertToBlob({ type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = targetWidth;
+    canvas.height = targetHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context not available');
+    }
+
+    context.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        result => result ? resolve(result) : reject(new Error('Failed to encode thumbnail')),
+        THUMBNAIL_TYPE,
+        THUMBNAIL_QUALITY
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Get the thumbnail of a page, generating it from the cached page when needed.
+// Returns null when the page is not cached: thumbnails never trigger a download.
+export async function getPageThumbnail(bookPath: string, pageIndex: number): Promise<Blob | null> {
+  const cached = await getCachedThumbnail(bookPath, pageIndex);
+  if (cached) {
+    return cached;
+  }
+
+  const page = await getCachedPage(bookPath, pageIndex);
+  if (!page) {
+    return null;
+  }
+
+  const thumbnail = await createThumbnail(page);
+  await cacheThumbnail(bookPath, pageIndex, thumbnail);
+  return thumbnail;
+}
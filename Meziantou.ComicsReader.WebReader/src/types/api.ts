@@ -84,11 +84,49 @@ export interface CachedBook {
   fullyDownloaded: boolean;
 }
 
+// Bytes used by the cached pages of a book
+export interface BookCacheUsage {
+  path: string;
+  sizeBytes: number;
+  lastAccessedAt: string;
+  // Pinned books are never evicted to fit in the storage budget
+  pinned?: boolean;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'failed';
+
+// What added a book to the download queue: the user, the automatic download of the catalog or the smart offline mode
+export type DownloadSource = 'user' | 'catalog' | 'smartOffline';
+
+// Book waiting in the download queue. Items are removed once the book is downloaded.
+export interface DownloadQueueItem {
+  path: string;
+  book: BookResponse;
+  status: DownloadStatus;
+  // Higher priorities are downloaded first, then the oldest items
+  priority: number;
+  addedAt: string;
+  // The books queued automatically are cancelled when their option is disabled
+  source: DownloadSource;
+  // Failed attempts since the last manual resume
+  attempts: number;
+  // Set while waiting before the next attempt
+  nextAttemptAt?: string;
+  error?: string;
+  downloadedPages: number;
+}
+
+// 'progress' updates are merged with the server (highest page wins).
+// 'unread' and 'reset' are explicit user actions that replace the progress of the server.
+export type PendingUpdateKind = 'progress' | 'unread' | 'reset';
+
 export interface PendingProgressUpdate {
   id: string;
   bookPath: string;
   pageIndex: number;
   timestamp: string;
+  // Missing for the updates queued before resets were supported
+  kind?: PendingUpdateKind;
 }
 
 export interface AppSettings {
@@ -96,6 +134,60 @@ export interface AppSettings {
   token: string;
   autoDownloadNewBooks: boolean;
   largeFullscreenProgressBar: boolean;
+  pageLayout: PageLayout;
+  readingDirection: ReadingDirection;
+  catalogSortField: CatalogSortField;
+  catalogSortDirection: SortDirection;
+  // Maximum size of the cached pages in megabytes, 0 for no limit
+  storageBudgetMB: number;
+  // Keep the next pages of the books in progress and the next books to read downloaded
+  smartOffline: boolean;
+  smartOfflinePageCount: number;
+  smartOfflineBookCount: number;
+}
+
+export type PageLayout = 'single' | 'spread' | 'spread-cover-alone';
+
+export type ReadingDirection = 'ltr' | 'rtl';
+
+// Reader options that can be overridden for a single book or for a whole directory
+export type ReaderPreferencesScope = 'book' | 'directory';
+
+export type ReaderMode = 'paged' | 'continuous';
+
+export type FitMode = 'fit-screen' | 'fit-width' | 'fit-height' | 'original' | 'stretch';
+
+export interface ReaderPreferences {
+  readingDirection?: ReadingDirection;
+  readerMode?: ReaderMode;
+  fitMode?: FitMode;
+}
+
+export interface Bookmark {
+  bookPath: string;
+  pageIndex: number;
+  note: string;
+  createdAt: string;
+}
+
+// User-defined list of books, in the order chosen by the user
+export interface Shelf {
+  id: string;
+  name: string;
+  bookPaths: string[];
+  createdAt: string;
+}
+
+// Time spent on a page of the reader, recorded when leaving the page
+export interface PageTurnEvent {
+  bookPath: string;
+  pageIndex: number;
+  timestamp: string;
+  durationMs: number;
 }
 
 export type FilterType = 'all' | 'one-shot' | 'series';
+
+export type CatalogSortField = 'title' | 'path' | 'pageCount' | 'fileSize' | 'lastRead' | 'progress' | 'added';
+
+export type SortDirection = 'asc' | 'desc';
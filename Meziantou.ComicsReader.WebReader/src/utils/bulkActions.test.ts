@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runBulkAction } from './bulkActions';
+
+describe('runBulkAction', () => {
+  it('should run the action on every item and report progress', async () => {
+    const action = vi.fn().mockResolvedValue(undefined);
+    const onProgress = vi.fn();
+
+    const result = await runBulkAction(['a', 'b', 'c'], action, { onProgress });
+
+    expect(action).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ succeeded: ['a', 'b', 'c'], failed: [], cancelled: false });
+    expect(onProgress.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('should continue after a failure and report it', async () => {
+    const action = vi.fn(async (item: string) => {
+      if (item === 'b') throw new Error('Not found');
+    });
+
+    const result = await runBulkAction(['a', 'b', 'c'], action);
+
+    expect(result.succeeded).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ item: 'b', error: 'Not found' }]);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    const action = vi.fn(async (item: string) => {
+      if (item === 'b') controller.abort();
+    });
+
+    const result = await runBulkAction(['a', 'b', 'c'], action, { signal: controller.signal });
+
+    expect(action).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ succeeded: ['a', 'b'], failed: [], cancelled: true });
+  });
+
+  it('should not report the item interrupted by the abort as failed', async () => {
+    const controller = new AbortController();
+    const action = vi.fn(async () => {
+      controller.abort();
+      throw new Error('Download cancelled');
+    });
+
+    const result = await runBulkAction(['a', 'b'], action, { signal: controller.signal });
+
+    expect(result).toEqual({ succeeded: [], failed: [], cancelled: true });
+  });
+});
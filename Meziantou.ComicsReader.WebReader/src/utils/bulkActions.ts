@@ -0,0 +1,47 @@
+export interface BulkActionFailure<TItem> {
+  item: TItem;
+  error: string;
+}
+
+export interface BulkActionResult<TItem> {
+  succeeded: TItem[];
+  failed: Array<BulkActionFailure<TItem>>;
+  /** True when the action was aborted before processing every item */
+  cancelled: boolean;
+}
+
+/**
+ * Run an action on each item, one at a time. A failure doesn't stop the remaining items,
+ * it is reported in the result with the error message.
+ */
+export async function runBulkAction<TItem>(
+  items: TItem[],
+  action: (item: TItem) => Promise<void>,
+  options: { onProgress?: (completed: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<BulkActionResult<TItem>> {
+  const { onProgress, signal } = options;
+  const result: BulkActionResult<TItem> = { succeeded: [], failed: [], cancelled: false };
+
+  for (const item of items) {
+    if (signal?.aborted) {
+      result.cancelled = true;
+      break;
+    }
+
+    try {
+      await action(item);
+      result.succeeded.push(item);
+    } catch (err) {
+      // Items interrupted by the abort are not failures
+      if (signal?.aborted) {
+        result.cancelled = true;
+        break;
+      }
+      result.failed.push({ item, error: err instanceof Error ? err.message : String(err) });
+    }
+
+    onProgress?.(result.succeeded.length + result.failed.length, items.length);
+  }
+
+  return result;
+}
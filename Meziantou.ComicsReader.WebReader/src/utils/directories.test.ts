@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildDirectoryListing, getBooksInDirectory, getDirectoryBreadcrumbs } from './directories';
+import type { BookResponse } from '../types';
+
+function createBook(path: string, overrides: Partial<BookResponse> = {}): BookResponse {
+  const lastSlash = path.lastIndexOf('/');
+  return {
+    path,
+    title: path.slice(lastSlash + 1),
+    pageCount: 10,
+    fileSize: 1000,
+    coverImageFileName: 'cover.jpg',
+    directory: lastSlash >= 0 ? path.slice(0, lastSlash) : null,
+    firstDirectory: lastSlash >= 0 ? path.slice(0, path.indexOf('/')) : null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+describe('buildDirectoryListing', () => {
+  const books = [
+    createBook('one-shot.cbz'),
+    createBook('Series/t10.cbz'),
+    createBook('Series/t2.cbz', { isCompleted: true, currentPage: 9 }),
+    createBook('Series/t1.cbz', { currentPage: 4 }),
+    createBook('Comics/Batman/01.cbz'),
+    createBook('Comics/Batman/Extra/a.cbz'),
+    createBook('Comics/special.cbz'),
+  ];
+
+  it('should list top-level directories and books at the root', () => {
+    const listing = buildDirectoryListing(books, null);
+
+    expect(listing.directories.map(d => d.path)).toEqual(['Comics', 'Series']);
+    expect(listing.books.map(b => b.path)).toEqual(['one-shot.cbz']);
+  });
+
+  it('should aggregate the reading state of a directory', () => {
+    const series = buildDirectoryListing(books, null).directories[1];
+
+    expect(series).toMatchObject({
+      name: 'Series',
+      volumeCount: 3,
+      completedCount: 1,
+      inProgressCount: 1,
+      unreadCount: 1,
+    });
+    expect(series.progress).toBeCloseTo(15 / 30);
+    expect(series.coverBook.path).toBe('Series/t1.cbz');
+  });
+
+  it('should count books of nested directories', () => {
+    const comics = buildDirectoryListing(books, null).directories[0];
+
+    expect(comics.volumeCount).toBe(3);
+  });
+
+  it('should list the content of a nested directory in natural order', () => {
+    const listing = buildDirectoryListing(books, 'Comics');
+
+    expect(listing.directories.map(d => d.path)).toEqual(['Comics/Batman']);
+    expect(listing.directories[0].name).toBe('Batman');
+    expect(listing.books.map(b => b.path)).toEqual(['Comics/special.cbz']);
+
+    const series = buildDirectoryListing(books, 'Series');
+    expect(series.books.map(b => b.path)).toEqual(['Series/t1.cbz', 'Series/t2.cbz', 'Series/t10.cbz']);
+  });
+
+  it('should not match directories sharing a prefix', () => {
+    const listing = buildDirectoryListing([createBook('Comics 2/a.cbz'), createBook('Comics/b.cbz')], 'Comics');
+
+    expect(listing.books.map(b => b.path)).toEqual(['Comics/b.cbz']);
+    expect(listing.directories).toEqual([]);
+  });
+});
+
+describe('getBooksInDirectory', () => {
+  it('should include books of subdirectories', () => {
+    const books = [createBook('a/2.cbz'), createBook('a/b/1.cbz'), createBook('c/1.cbz')];
+
+    expect(getBooksInDirectory(books, 'a').map(b => b.path)).toEqual(['a/2.cbz', 'a/b/1.cbz']);
+    expect(getBooksInDirectory(books, null)).toHaveLength(3);
+  });
+});
+
+describe('getDirectoryBreadcrumbs', () => {
+  it('should return one entry per segment', () => {
+    expect(getDirectoryBreadcrumbs('a/b/c')).toEqual([
+      { name: 'a', path: 'a' },
+      { name: 'b', path: 'a/b' },
+      { name: 'c', path: 'a/b/c' },
+    ]);
+  });
+});
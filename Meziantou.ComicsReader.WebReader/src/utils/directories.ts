@@ -0,0 +1,114 @@
+import type { BookResponse } from '../types';
+import { naturalSort } from './recommendations';
+
+export interface DirectoryEntry {
+  /** Full path of the directory, e.g. "Comics/Series" */
+  path: string;
+  /** Last segment of the path */
+  name: string;
+  /** Book used as the cover of the directory (first volume in natural order) */
+  coverBook: BookResponse;
+  /** Number of books in the directory and its subdirectories */
+  volumeCount: number;
+  completedCount: number;
+  inProgressCount: number;
+  unreadCount: number;
+  /** Pages read over total pages, between 0 and 1 */
+  progress: number;
+}
+
+export interface DirectoryListing {
+  directories: DirectoryEntry[];
+  books: BookResponse[];
+}
+
+function isInDirectory(book: BookResponse, directory: string): boolean {
+  return book.directory === directory || (book.directory?.startsWith(directory + '/') ?? false);
+}
+
+function createDirectoryEntry(path: string, books: BookResponse[]): DirectoryEntry {
+  let completedCount = 0;
+  let inProgressCount = 0;
+  let pagesRead = 0;
+  let totalPages = 0;
+
+  for (const book of books) {
+    totalPages += book.pageCount;
+    if (book.isCompleted) {
+      completedCount++;
+      pagesRead += book.pageCount;
+    } else if (book.currentPage !== null) {
+      inProgressCount++;
+      pagesRead += Math.min(book.currentPage + 1, book.pageCount);
+    }
+  }
+
+  const sortedBooks = books.slice().sort((a, b) => naturalSort(a.path, b.path));
+
+  return {
+    path,
+    name: path.slice(path.lastIndexOf('/') + 1),
+    coverBook: sortedBooks[0],
+    volumeCount: books.length,
+    completedCount,
+    inProgressCount,
+    unreadCount: books.length - completedCount - inProgressCount,
+    progress: totalPages > 0 ? pagesRead / totalPages : 0,
+  };
+}
+
+/**
+ * List the content of a directory of the catalog: its immediate subdirectories (with aggregated
+ * reading state) and the books it directly contains, both in natural order.
+ * Use null for the root of the catalog.
+ */
+export function buildDirectoryListing(books: BookResponse[], directory: string | null): DirectoryListing {
+  const prefix = directory === null ? '' : directory + '/';
+  const booksBySubdirectory = new Map<string, BookResponse[]>();
+  const directBooks: BookResponse[] = [];
+
+  for (const book of books) {
+    if (book.directory === directory || (directory === null && !book.directory)) {
+      directBooks.push(book);
+      continue;
+    }
+
+    if (!book.directory || (directory !== null && !isInDirectory(book, directory))) {
+      continue;
+    }
+
+    const relativePath = book.directory.slice(prefix.length);
+    const childName = relativePath.split('/')[0];
+    const childPath = prefix + childName;
+
+    const childBooks = booksBySubdirectory.get(childPath);
+    if (childBooks) {
+      childBooks.push(book);
+    } else {
+      booksBySubdirectory.set(childPath, [book]);
+    }
+  }
+
+  return {
+    directories: [...booksBySubdirectory.entries()]
+      .map(([path, directoryBooks]) => createDirectoryEntry(path, directoryBooks))
+      .sort((a, b) => naturalSort(a.name, b.name)),
+    books: directBooks.sort((a, b) => naturalSort(a.path, b.path)),
+  };
+}
+
+/**
+ * All the books of a directory, including its subdirectories, in natural order
+ */
+export function getBooksInDirectory(books: BookResponse[], directory: string | null): BookResponse[] {
+  const result = directory === null ? books.slice() : books.filter(book => isInDirectory(book, directory));
+  return result.sort((a, b) => naturalSort(a.path, b.path));
+}
+
+/**
+ * "a/b/c" => [{ name: "a", path: "a" }, { name: "b", path: "a/b" }, { name: "c", path: "a/b/c" }]
+ */
+export function getDirectoryBreadcrumbs(directory: string): Array<{ name: string; path: string }> {
+  const parts = directory.split('/').filter(part => part.length > 0);
+  return parts.map((name, index) => ({ name, path: parts.slice(0, index + 1).join('/') }));
+}
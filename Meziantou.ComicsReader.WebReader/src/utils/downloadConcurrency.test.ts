@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { adjustConcurrency, countCompletedPrefix, getPageRetryDelay } from './downloadConcurrency';
+
+const limits = { min: 1, max: 6 };
+
+describe('adjustConcurrency', () => {
+  it('should try one more download after the first window', () => {
+    const state = adjustConcurrency({ concurrency: 2, previousThroughput: null }, { bytes: 1000, errors: 0, elapsedMs: 100 }, limits);
+
+    expect(state).toEqual({ concurrency: 3, previousThroughput: 10 });
+  });
+
+  it('should increase while the throughput improves', () => {
+    const state = adjustConcurrency({ concurrency: 3, previousThroughput: 10 }, { bytes: 2000, errors: 0, elapsedMs: 100 }, limits);
+
+    expect(state.concurrency).toBe(4);
+  });
+
+  it('should decrease when the throughput degrades', () => {
+    const state = adjustConcurrency({ concurrency: 3, previousThroughput: 10 }, { bytes: 500, errors: 0, elapsedMs: 100 }, limits);
+
+    expect(state.concurrency).toBe(2);
+  });
+
+  it('should keep the concurrency when the throughput is stable', () => {
+    const state = adjustConcurrency({ concurrency: 3, previousThroughput: 10 }, { bytes: 1050, errors: 0, elapsedMs: 100 }, limits);
+
+    expect(state.concurrency).toBe(3);
+  });
+
+  it('should halve the concurrency on errors', () => {
+    const state = adjustConcurrency({ concurrency: 5, previousThroughput: 10 }, { bytes: 5000, errors: 1, elapsedMs: 100 }, limits);
+
+    expect(state).toEqual({ concurrency: 2, previousThroughput: null });
+  });
+
+  it('should stay within the limits', () => {
+    expect(adjustConcurrency({ concurrency: 6, previousThroughput: null }, { bytes: 1000, errors: 0, elapsedMs: 100 }, limits).concurrency).toBe(6);
+    expect(adjustConcurrency({ concurrency: 1, previousThroughput: 10 }, { bytes: 0, errors: 2, elapsedMs: 100 }, limits).concurrency).toBe(1);
+  });
+});
+
+describe('countCompletedPrefix', () => {
+  it('should count the consecutive completed pages from the start', () => {
+    expect(countCompletedPrefix([true, true, false, true])).toBe(2);
+    expect(countCompletedPrefix([false, true])).toBe(0);
+    expect(countCompletedPrefix([true, true])).toBe(2);
+  });
+
+  it('should continue from a known count', () => {
+    expect(countCompletedPrefix([true, true, true, false], 2)).toBe(3);
+  });
+});
+
+describe('getPageRetryDelay', () => {
+  it('should double the delay after each attempt up to a maximum', () => {
+    expect(getPageRetryDelay(1)).toBe(500);
+    expect(getPageRetryDelay(2)).toBe(1000);
+    expect(getPageRetryDelay(3)).toBe(2000);
+    expect(getPageRetryDelay(10)).toBe(5000);
+  });
+});
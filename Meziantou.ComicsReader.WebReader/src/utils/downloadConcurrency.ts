@@ -0,0 +1,71 @@
+export interface ConcurrencyLimits {
+  min: number;
+  max: number;
+}
+
+export interface ConcurrencyState {
+  concurrency: number;
+  // Throughput of the previous window in bytes per millisecond, null after a change caused by errors
+  previousThroughput: number | null;
+}
+
+// Pages downloaded since the last adjustment
+export interface DownloadWindow {
+  bytes: number;
+  errors: number;
+  elapsedMs: number;
+}
+
+// Relative change of throughput considered significant
+const THROUGHPUT_TOLERANCE = 0.1;
+
+const PAGE_RETRY_BASE_DELAY_MS = 500;
+const PAGE_RETRY_MAX_DELAY_MS = 5000;
+
+/**
+ * Adapt the number of parallel downloads after a window of downloads.
+ * Errors halve the concurrency. Otherwise one more download is tried while the throughput improves,
+ * and one less when it degrades.
+ */
+export function adjustConcurrency(
+  state: ConcurrencyState,
+  window: DownloadWindow,
+  limits: ConcurrencyLimits
+): ConcurrencyState {
+  const clamp = (value: number) => Math.min(limits.max, Math.max(limits.min, value));
+
+  if (window.errors > 0) {
+    return { concurrency: clamp(Math.floor(state.concurrency / 2)), previousThroughput: null };
+  }
+
+  const throughput = window.bytes / Math.max(1, window.elapsedMs);
+  const previous = state.previousThroughput;
+  if (previous === null || throughput > previous * (1 + THROUGHPUT_TOLERANCE)) {
+    return { concurrency: clamp(state.concurrency + 1), previousThroughput: throughput };
+  }
+
+  if (throughput < previous * (1 - THROUGHPUT_TOLERANCE)) {
+    return { concurrency: clamp(state.concurrency - 1), previousThroughput: throughput };
+  }
+
+  return { concurrency: state.concurrency, previousThroughput: throughput };
+}
+
+/**
+ * Number of consecutive completed pages from the first page, so progress is reported in page order
+ * even when pages complete out of order
+ */
+export function countCompletedPrefix(completed: readonly boolean[], start: number = 0): number {
+  let count = start;
+  while (count < completed.length && completed[count]) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Delay before downloading a page again after a number of failed attempts, doubled after each failure
+ */
+export function getPageRetryDelay(attempts: number): number {
+  return Math.min(PAGE_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), PAGE_RETRY_MAX_DELAY_MS);
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sortDownloadQueue,
+  selectNextDownload,
+  getRetryDelay,
+  getNextRetryTime,
+  getTopPriority,
+  computeDownloadProgress,
+  getCancelledDownloadSources,
+} from './downloadQueue';
+import type { AppSettings, DownloadQueueItem } from '../types';
+
+function createItem(path: string, overrides: Partial<DownloadQueueItem> = {}): DownloadQueueItem {
+  return {
+    path,
+    book: {
+      path,
+      title: path,
+      pageCount: 10,
+      fileSize: 1000,
+      coverImageFileName: null,
+      directory: null,
+      firstDirectory: null,
+      currentPage: null,
+      isCompleted: false,
+      lastRead: null,
+    },
+    status: 'queued',
+    source: 'user',
+    priority: 0,
+    addedAt: '2025-01-01T10:00:00Z',
+    attempts: 0,
+    downloadedPages: 0,
+    ...overrides,
+  };
+}
+
+const now = new Date('2025-01-01T12:00:00Z');
+
+describe('sortDownloadQueue', () => {
+  it('should sort by priority, then by date added', () => {
+    const items = [
+      createItem('late', { addedAt: '2025-01-01T11:00:00Z' }),
+      createItem('early', { addedAt: '2025-01-01T09:00:00Z' }),
+      createItem('bumped', { addedAt: '2025-01-01T11:30:00Z', priority: 1 }),
+    ];
+
+    expect(sortDownloadQueue(items).map(item => item.path)).toEqual(['bumped', 'early', 'late']);
+  });
+});
+
+describe('selectNextDownload', () => {
+  it('should skip paused and failed books', () => {
+    const items = [
+      createItem('paused', { status: 'paused', priority: 2 }),
+      createItem('failed', { status: 'failed', priority: 2 }),
+      createItem('queued'),
+    ];
+
+    expect(selectNextDownload(items, now)?.path).toBe('queued');
+  });
+
+  it('should wait for the retry time', () => {
+    const items = [
+      createItem('retry-later', { priority: 1, nextAttemptAt: '2025-01-01T12:01:00Z' }),
+      createItem('retry-now', { nextAttemptAt: '2025-01-01T11:59:00Z' }),
+    ];
+
+    expect(selectNextDownload(items, now)?.path).toBe('retry-now');
+  });
+
+  it('should return null when nothing is ready', () => {
+    expect(selectNextDownload([createItem('paused', { status: 'paused' })], now)).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should double the delay after each attempt up to a maximum', () => {
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(2)).toBe(10000);
+    expect(getRetryDelay(3)).toBe(20000);
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('getNextRetryTime', () => {
+  it('should return the earliest retry of the queued books', () => {
+    const items = [
+      createItem('a', { nextAttemptAt: '2025-01-01T12:05:00Z' }),
+      createItem('b', { nextAttemptAt: '2025-01-01T12:01:00Z' }),
+      createItem('c', { status: 'paused', nextAttemptAt: '2025-01-01T12:00:30Z' }),
+    ];
+
+    expect(getNextRetryTime(items)).toEqual(new Date('2025-01-01T12:01:00Z'));
+  });
+
+  it('should return null without retry', () => {
+    expect(getNextRetryTime([createItem('a')])).toBeNull();
+  });
+});
+
+describe('getTopPriority', () => {
+  it('should return a priority above every item', () => {
+    expect(getTopPriority([createItem('a', { priority: 3 }), createItem('b')])).toBe(4);
+    expect(getTopPriority([])).toBe(1);
+  });
+});
+
+describe('computeDownloadProgress', () => {
+  it('should sum the pages of every book', () => {
+    const items = [createItem('a', { downloadedPages: 4 }), createItem('b', { downloadedPages: 1 })];
+
+    expect(computeDownloadProgress(items)).toEqual({ downloadedPages: 5, totalPages: 20 });
+  });
+});
+
+describe('getCancelledDownloadSources', () => {
+  const settings = { autoDownloadNewBooks: true, smartOffline: true } as AppSettings;
+
+  it('should cancel the books of the catalog when the automatic download is disabled', () => {
+    expect(getCancelledDownloadSources(settings, { ...settings, autoDownloadNewBooks: false })).toEqual(['catalog']);
+  });
+
+  it('should cancel the books of the smart offline mode when it is disabled', () => {
+    expect(getCancelledDownloadSources(settings, { ...settings, smartOffline: false })).toEqual(['smartOffline']);
+  });
+
+  it('should not cancel anything when the options did not change', () => {
+    expect(getCancelledDownloadSources(settings, settings)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { AppSettings, DownloadQueueItem, DownloadSource } from '../types';
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Order of the queue: highest priority first, then the oldest items
+ */
+export function sortDownloadQueue(items: DownloadQueueItem[]): DownloadQueueItem[] {
+  return [...items].sort((a, b) => b.priority - a.priority || a.addedAt.localeCompare(b.addedAt));
+}
+
+/**
+ * Next book to download, or null when every queued book is paused, failed or waiting for a retry
+ */
+export function selectNextDownload(items: DownloadQueueItem[], now: Date): DownloadQueueItem | null {
+  const ready = items.filter(item =>
+    item.status === 'queued' && (!item.nextAttemptAt || new Date(item.nextAttemptAt) <= now)
+  );
+  return sortDownloadQueue(ready)[0] ?? null;
+}
+
+/**
+ * Delay before the next attempt after a number of failed attempts, doubled after each failure
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Earliest retry of the queue, or null when no book is waiting for a retry
+ */
+export function getNextRetryTime(items: DownloadQueueItem[]): Date | null {
+  let next: Date | null = null;
+  for (const item of items) {
+    if (item.status !== 'queued' || !item.nextAttemptAt) continue;
+
+    const date = new Date(item.nextAttemptAt);
+    if (next === null || date < next) {
+      next = date;
+    }
+  }
+  return next;
+}
+
+/**
+ * Priority that moves a book to the top of the queue
+ */
+export function getTopPriority(items: DownloadQueueItem[]): number {
+  return Math.max(0, ...items.map(item => item.priority)) + 1;
+}
+
+/**
+ * Overall progress of the queue, in pages
+ */
+export function computeDownloadProgress(items: DownloadQueueItem[]): { downloadedPages: number; totalPages: number } {
+  let downloadedPages = 0;
+  let totalPages = 0;
+  for (const item of items) {
+    downloadedPages += item.downloadedPages;
+    totalPages += item.book.pageCount;
+  }
+  return { downloadedPages, totalPages };
+}
+
+/**
+ * Automatic downloads whose option was just disabled, the books they queued are cancelled
+ */
+export function getCancelledDownloadSources(previous: AppSettings, next: AppSettings): DownloadSource[] {
+  const sources: DownloadSource[] = [];
+  if (previous.autoDownloadNewBooks && !next.autoDownloadNewBooks) {
+    sources.push('catalog');
+  }
+  if (previous.smartOffline && !next.smartOffline) {
+    sources.push('smartOffline');
+  }
+  return sources;
+}
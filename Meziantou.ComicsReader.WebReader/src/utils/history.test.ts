@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { groupByMonth } from './history';
+
+describe('groupByMonth', () => {
+  const getDate = (item: { date: string }) => item.date;
+
+  it('should group items by month, most recent first', () => {
+    const items = [
+      { id: 1, date: '2024-11-03T12:00:00' },
+      { id: 2, date: '2025-01-15T12:00:00' },
+      { id: 3, date: '2024-11-20T12:00:00' },
+      { id: 4, date: '2025-01-02T12:00:00' },
+    ];
+
+    const groups = groupByMonth(items, getDate);
+
+    expect(groups.map(g => g.month)).toEqual(['2025-01', '2024-11']);
+    expect(groups[0].items.map(i => i.id)).toEqual([2, 4]);
+    expect(groups[1].items.map(i => i.id)).toEqual([1, 3]);
+  });
+
+  it('should return an empty list when there are no items', () => {
+    expect(groupByMonth([], getDate)).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+export interface MonthGroup<T> {
+  /** Month in the local time zone, formatted as "YYYY-MM" */
+  month: string;
+  items: T[];
+}
+
+/**
+ * Group items by the month of their date, most recent month first.
+ * Items keep their relative order inside a month.
+ */
+export function groupByMonth<T>(items: T[], getDate: (item: T) => string): MonthGroup<T>[] {
+  const groups = new Map<string, T[]>();
+
+  for (const item of items) {
+    const date = new Date(getDate(item));
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+    const group = groups.get(month);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(month, [item]);
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a < b ? 1 : a > b ? -1 : 0))
+    .map(([month, monthItems]) => ({ month, items: monthItems }));
+}
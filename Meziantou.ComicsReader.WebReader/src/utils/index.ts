@@ -1,2 +1,18 @@
 export * from './strings';
 export * from './recommendations';
+export * from './spreads';
+export * from './routes';
+export * from './history';
+export * from './statistics';
+export * from './directories';
+export * from './sorting';
+export * from './virtualization';
+export * from './searchQuery';
+export * from './searchIndex';
+export * from './shelves';
+export * from './bulkActions';
+export * from './readingProgress';
+export * from './storageBudget';
+export * from './downloadQueue';
+export * from './downloadConcurrency';
+export * from './smartOffline';
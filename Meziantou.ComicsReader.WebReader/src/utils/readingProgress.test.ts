@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { applyProgressToBook, applyProgressToReadingList } from './readingProgress';
+import type { BookResponse, ReadingListItemResponse } from '../types';
+
+function createBook(overrides: Partial<BookResponse>): BookResponse {
+  return {
+    path: 'book.cbz',
+    title: 'Book',
+    pageCount: 20,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+function createItem(book: BookResponse): ReadingListItemResponse {
+  return {
+    bookPath: book.path,
+    pageIndex: book.currentPage ?? 0,
+    completed: book.isCompleted,
+    lastRead: book.lastRead ?? '2025-01-01T10:00:00Z',
+    book,
+  };
+}
+
+const completed = createBook({ path: 'a', currentPage: 19, isCompleted: true, lastRead: '2025-01-01T10:00:00Z' });
+const inProgress = createBook({ path: 'b', currentPage: 4, lastRead: '2025-01-02T10:00:00Z' });
+const progress = { pageIndex: 19, completed: false, lastRead: '2025-01-03T10:00:00Z' };
+
+describe('applyProgressToBook', () => {
+  it('should remove the progress of the book', () => {
+    expect(applyProgressToBook(completed, null)).toEqual({
+      ...completed,
+      currentPage: null,
+      isCompleted: false,
+      lastRead: null,
+    });
+  });
+
+  it('should replace the progress of the book', () => {
+    expect(applyProgressToBook(completed, progress)).toEqual({
+      ...completed,
+      currentPage: 19,
+      isCompleted: false,
+      lastRead: '2025-01-03T10:00:00Z',
+    });
+  });
+});
+
+describe('applyProgressToReadingList', () => {
+  const readingList = [createItem(completed), createItem(inProgress)];
+
+  it('should remove the book from the reading list', () => {
+    const result = applyProgressToReadingList(readingList, completed, null);
+
+    expect(result.map(item => item.bookPath)).toEqual(['b']);
+    expect(readingList).toHaveLength(2);
+  });
+
+  it('should replace the item of the book', () => {
+    const result = applyProgressToReadingList(readingList, completed, progress);
+
+    expect(result).toHaveLength(2);
+    expect(result[1]).toEqual({
+      bookPath: 'a',
+      pageIndex: 19,
+      completed: false,
+      lastRead: '2025-01-03T10:00:00Z',
+      book: applyProgressToBook(completed, progress),
+    });
+  });
+
+  it('should add books that are not in the reading list', () => {
+    const result = applyProgressToReadingList([], completed, progress);
+
+    expect(result.map(item => item.bookPath)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,41 @@
+import type { BookResponse, ReadingListItemResponse } from '../types';
+
+export interface ReadingProgress {
+  pageIndex: number;
+  completed: boolean;
+  lastRead: string;
+}
+
+/**
+ * Apply a progress to a book. Use null to remove the progress (the book is unread).
+ */
+export function applyProgressToBook(book: BookResponse, progress: ReadingProgress | null): BookResponse {
+  return {
+    ...book,
+    currentPage: progress ? progress.pageIndex : null,
+    isCompleted: progress?.completed ?? false,
+    lastRead: progress ? progress.lastRead : null,
+  };
+}
+
+/**
+ * Apply the progress of a book to the reading list, replacing its current item.
+ * Use null to remove the book from the reading list.
+ */
+export function applyProgressToReadingList(
+  readingList: ReadingListItemResponse[],
+  book: BookResponse,
+  progress: ReadingProgress | null
+): ReadingListItemResponse[] {
+  const result = readingList.filter(item => item.bookPath !== book.path);
+  if (progress) {
+    result.push({
+      bookPath: book.path,
+      pageIndex: progress.pageIndex,
+      completed: progress.completed,
+      lastRead: progress.lastRead,
+      book: applyProgressToBook(book, progress),
+    });
+  }
+  return result;
+}
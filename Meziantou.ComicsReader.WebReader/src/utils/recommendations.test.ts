@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { computeNextBooksToRead } from './recommendations';
+import { computeNextBooksToRead, naturalSort } from './recommendations';
 import type { BookResponse, ReadingListItemResponse } from '../types';
 
 describe('computeNextBooksToRead', () => {
@@ -197,3 +197,16 @@ describe('computeNextBooksToRead', () => {
     expect(result.map(b => b.path)).toEqual(['foo/t03.cbz']);
   });
 });
+
+describe('naturalSort', () => {
+  it('should compare numeric segments numerically', () => {
+    const values = ['t10', 't2', 'T1'];
+
+    expect(values.sort(naturalSort)).toEqual(['T1', 't2', 't10']);
+  });
+
+  it('should put shorter prefixes first', () => {
+    expect(naturalSort('Series', 'Series 2')).toBeLessThan(0);
+    expect(naturalSort('abc', 'ABC')).toBe(0);
+  });
+});
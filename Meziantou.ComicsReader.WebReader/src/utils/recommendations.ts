@@ -4,7 +4,7 @@ import type { BookResponse, ReadingListItemResponse } from '../types';
  * Natural sort comparison function for strings (case-insensitive)
  * Handles numeric segments properly (e.g., "t01", "t02", "t10")
  */
-function naturalSort(a: string, b: string): number {
+export function naturalSort(a: string, b: string): number {
   const aLower = a.toLowerCase();
   const bLower = b.toLowerCase();
 
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getBookUrl, getBrowseUrl, getReaderUrl, parseReaderPage } from './routes';
+
+describe('getReaderUrl', () => {
+  it('should encode the book path as a single segment', () => {
+    expect(getReaderUrl('Series/Volume 1.cbz')).toBe('/reader/Series%2FVolume%201.cbz');
+  });
+
+  it('should append the page number 1-based', () => {
+    expect(getReaderUrl('book.cbz', 0)).toBe('/reader/book.cbz/1');
+    expect(getReaderUrl('book.cbz', 41)).toBe('/reader/book.cbz/42');
+  });
+});
+
+describe('getBookUrl', () => {
+  it('should encode the book path as a single segment', () => {
+    expect(getBookUrl('Series/Volume 1.cbz')).toBe('/book/Series%2FVolume%201.cbz');
+  });
+});
+
+describe('parseReaderPage', () => {
+  it('should convert the page number to a 0-based index', () => {
+    expect(parseReaderPage('1')).toBe(0);
+    expect(parseReaderPage('42')).toBe(41);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseReaderPage(undefined)).toBeUndefined();
+    expect(parseReaderPage('')).toBeUndefined();
+    expect(parseReaderPage('0')).toBeUndefined();
+    expect(parseReaderPage('-3')).toBeUndefined();
+    expect(parseReaderPage('abc')).toBeUndefined();
+    expect(parseReaderPage('2.5')).toBeUndefined();
+  });
+});
+
+describe('getBrowseUrl', () => {
+  it('should return the root of the browser without directory', () => {
+    expect(getBrowseUrl(null)).toBe('/browse');
+  });
+
+  it('should encode each segment of the directory', () => {
+    expect(getBrowseUrl('Comics/Série #1')).toBe('/browse/Comics/S%C3%A9rie%20%231');
+  });
+});
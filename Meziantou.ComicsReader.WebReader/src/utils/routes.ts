@@ -0,0 +1,34 @@
+/**
+ * Build the URL of the reader. The page is a 0-based index, displayed 1-based in the URL.
+ */
+export function getReaderUrl(bookPath: string, pageIndex?: number): string {
+  const url = `/reader/${encodeURIComponent(bookPath)}`;
+  return pageIndex === undefined ? url : `${url}/${pageIndex + 1}`;
+}
+
+/**
+ * Build the URL of the details page of a book
+ */
+export function getBookUrl(bookPath: string): string {
+  return `/book/${encodeURIComponent(bookPath)}`;
+}
+
+/**
+ * Parse the page segment of a reader URL into a 0-based index.
+ * Returns undefined when the segment is missing or invalid.
+ */
+export function parseReaderPage(value: string | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+
+  const page = Number(value);
+  return page >= 1 ? page - 1 : undefined;
+}
+
+/**
+ * Build the URL of the directory browser. Use null for the root of the catalog.
+ */
+export function getBrowseUrl(directory: string | null): string {
+  if (!directory) return '/browse';
+
+  return `/browse/${directory.split('/').map(encodeURIComponent).join('/')}`;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, editDistance, rankBooksByRelevance, scoreSearchText, tokenizeSearchText } from './searchIndex';
+import type { BookResponse } from '../types';
+
+function createBook(path: string, title: string, directory: string | null = null): BookResponse {
+  return {
+    path,
+    title,
+    pageCount: 20,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory,
+    firstDirectory: directory,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+  };
+}
+
+const spiderMan = createBook('Marvel/Spider-Man 01.cbz', 'Spider-Man 01', 'Marvel');
+const batman = createBook('DC/Batman Year One.cbz', 'Batman Year One', 'DC');
+const manga = createBook('Mangas/One Piece/One Piece 01.cbz', 'One Piece 01', 'Mangas/One Piece');
+const books = [spiderMan, batman, manga];
+const index = createSearchIndex(books);
+
+const matches = (text: string) => books.filter(book => scoreSearchText(index, book, text) > 0).map(b => b.title);
+
+describe('tokenizeSearchText', () => {
+  it('should fold diacritics and split on punctuation', () => {
+    expect(tokenizeSearchText('Spîder-Man: Vol.2')).toEqual(['spider', 'man', 'vol', '2']);
+    expect(tokenizeSearchText('  ')).toEqual([]);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('batman', 'batman', 2)).toBe(0);
+    expect(editDistance('batmn', 'batman', 2)).toBe(1);
+    expect(editDistance('batmen', 'batman', 2)).toBe(1);
+  });
+
+  it('should count swapped letters as one typo', () => {
+    expect(editDistance('btaman', 'batman', 2)).toBe(1);
+    expect(editDistance('btamna', 'batman', 2)).toBe(2);
+  });
+
+  it('should stop above the maximum distance', () => {
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    expect(editDistance('abcdef', 'uvwxyz', 1)).toBe(2);
+  });
+});
+
+describe('scoreSearchText', () => {
+  it('should match the different spellings of a title', () => {
+    expect(matches('spiderman')).toEqual(['Spider-Man 01']);
+    expect(matches('spider')).toEqual(['Spider-Man 01']);
+    expect(matches('Spîder-Man')).toEqual(['Spider-Man 01']);
+  });
+
+  it('should match prefixes and substrings', () => {
+    expect(matches('bat')).toEqual(['Batman Year One']);
+    expect(matches('ece')).toEqual(['One Piece 01']);
+    // "Mangas" directory
+    expect(matches('man')).toEqual(['Spider-Man 01', 'Batman Year One', 'One Piece 01']);
+  });
+
+  it('should tolerate typos in longer words', () => {
+    expect(matches('btaman')).toEqual(['Batman Year One']);
+    expect(matches('piec')).toEqual(['One Piece 01']);
+    expect(matches('pice')).toEqual(['One Piece 01']);
+    expect(matches('xne')).toEqual([]);
+  });
+
+  it('should match directories', () => {
+    expect(matches('marvel')).toEqual(['Spider-Man 01']);
+  });
+
+  it('should match phrases exactly', () => {
+    expect(matches('year one')).toEqual(['Batman Year One']);
+    expect(matches('one year')).toEqual([]);
+  });
+
+  it('should rank exact title matches first', () => {
+    const exact = scoreSearchText(index, manga, 'one');
+    const prefix = scoreSearchText(index, batman, 'on');
+
+    expect(exact).toBeGreaterThan(scoreSearchText(index, manga, 'on'));
+    expect(scoreSearchText(index, spiderMan, 'marvel')).toBeLessThan(scoreSearchText(index, spiderMan, 'spider'));
+    expect(prefix).toBeGreaterThan(0);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('should reuse entries of unchanged books', () => {
+    const updated = createSearchIndex([{ ...spiderMan, currentPage: 3 }, { ...batman, title: 'Batman: Year One' }], index);
+
+    expect(updated.entries.get(spiderMan.path)).toBe(index.entries.get(spiderMan.path));
+    expect(updated.entries.get(batman.path)).not.toBe(index.entries.get(batman.path));
+    expect(updated.entries.has(manga.path)).toBe(false);
+  });
+});
+
+describe('rankBooksByRelevance', () => {
+  it('should sort by decreasing relevance and keep the order of ties', () => {
+    const ranked = rankBooksByRelevance(index, [batman, manga, spiderMan], ['one']);
+
+    expect(ranked.map(b => b.title)).toEqual(['Batman Year One', 'One Piece 01', 'Spider-Man 01']);
+    expect(rankBooksByRelevance(index, books, [])).toBe(books);
+  });
+});
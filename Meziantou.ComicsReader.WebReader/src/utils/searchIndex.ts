@@ -0,0 +1,177 @@
+import type { BookResponse } from '../types';
+import { containsInsensitive, normalizeString } from './strings';
+
+interface IndexedField {
+  weight: number;
+  tokens: string[];
+}
+
+interface SearchIndexEntry {
+  title: string;
+  directory: string | null;
+  path: string;
+  fields: IndexedField[];
+}
+
+export interface SearchIndex {
+  entries: ReadonlyMap<string, SearchIndexEntry>;
+}
+
+// Matches in the title are worth more than matches in the directory or elsewhere in the path
+const TITLE_WEIGHT = 3;
+const DIRECTORY_WEIGHT = 2;
+const PATH_WEIGHT = 1;
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const SUBSTRING_SCORE = 0.5;
+const TYPO_SCORE = 0.4;
+
+/**
+ * Split a text into lowercase words without diacritics ("Spîder-Man" => ["spider", "man"])
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeString(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+// Words are also indexed glued to the next one, so that "spiderman" finds "Spider-Man"
+function getIndexTokens(text: string): string[] {
+  const tokens = tokenizeSearchText(text);
+  const result = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    result.push(tokens[i] + tokens[i + 1]);
+  }
+  return result;
+}
+
+function createEntry(book: BookResponse): SearchIndexEntry {
+  const fields: IndexedField[] = [
+    { weight: TITLE_WEIGHT, tokens: getIndexTokens(book.title) },
+    { weight: PATH_WEIGHT, tokens: getIndexTokens(book.path) },
+  ];
+  if (book.directory) {
+    fields.push({ weight: DIRECTORY_WEIGHT, tokens: getIndexTokens(book.directory) });
+  }
+
+  return { title: book.title, directory: book.directory, path: book.path, fields };
+}
+
+/**
+ * Build the search index of the catalog. Entries of the previous index are reused for books
+ * whose title, directory and path didn't change, so only new or renamed books are tokenized.
+ */
+export function createSearchIndex(books: BookResponse[], previous?: SearchIndex): SearchIndex {
+  const entries = new Map<string, SearchIndexEntry>();
+  for (const book of books) {
+    const existing = previous?.entries.get(book.path);
+    const isUpToDate = existing !== undefined && existing.title === book.title && existing.directory === book.directory;
+    entries.set(book.path, isUpToDate ? existing : createEntry(book));
+  }
+  return { entries };
+}
+
+/**
+ * Edit distance between two strings, counting swapped adjacent letters as a single typo
+ * (optimal string alignment). Returns maxDistance + 1 when the distance is larger than maxDistance.
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let twoRowsAgo: number[] = [];
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        currentRow[j] = Math.min(currentRow[j], twoRowsAgo[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, currentRow[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    twoRowsAgo = previousRow;
+    previousRow = currentRow;
+  }
+
+  return Math.min(previousRow[b.length], maxDistance + 1);
+}
+
+// Short words must be typed correctly, longer ones tolerate one or two typos
+function getMaxTypos(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+}
+
+function scoreToken(queryToken: string, tokens: string[]): number {
+  const maxTypos = getMaxTypos(queryToken);
+  let best = 0;
+
+  for (const token of tokens) {
+    if (token === queryToken) return EXACT_SCORE;
+
+    if (token.startsWith(queryToken)) {
+      best = Math.max(best, PREFIX_SCORE);
+    } else if (queryToken.length >= 2 && token.includes(queryToken)) {
+      best = Math.max(best, SUBSTRING_SCORE);
+    } else if (maxTypos > 0 && best < TYPO_SCORE) {
+      // Compare with the whole word and with its beginning, as the user may still be typing
+      const distance = Math.min(
+        editDistance(queryToken, token, maxTypos),
+        editDistance(queryToken, token.slice(0, queryToken.length), maxTypos)
+      );
+      if (distance <= maxTypos) {
+        best = Math.max(best, TYPO_SCORE / distance);
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Relevance of a book for a search text, 0 when the book doesn't match.
+ * Every word of the text must match the title, the directory or the path, allowing prefixes and typos.
+ * Texts containing spaces are exact phrases.
+ */
+export function scoreSearchText(index: SearchIndex, book: BookResponse, text: string): number {
+  if (/\s/.test(text.trim())) {
+    if (containsInsensitive(book.title, text)) return TITLE_WEIGHT;
+    return containsInsensitive(book.path, text) ? PATH_WEIGHT : 0;
+  }
+
+  const queryTokens = tokenizeSearchText(text);
+  if (queryTokens.length === 0) {
+    return containsInsensitive(book.path, text) ? PATH_WEIGHT : 0;
+  }
+
+  const entry = index.entries.get(book.path) ?? createEntry(book);
+  let total = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    for (const field of entry.fields) {
+      best = Math.max(best, field.weight * scoreToken(queryToken, field.tokens));
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  return total;
+}
+
+/**
+ * Sort books by decreasing relevance for the search texts. The sort is stable so books with the same
+ * relevance keep their order.
+ */
+export function rankBooksByRelevance(index: SearchIndex, books: BookResponse[], texts: string[]): BookResponse[] {
+  if (texts.length === 0) return books;
+
+  const scores = new Map(books.map(book => [
+    book.path,
+    texts.reduce((sum, text) => sum + scoreSearchText(index, book, text), 0),
+  ]));
+
+  return books.slice().sort((a, b) => scores.get(b.path)! - scores.get(a.path)!);
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { filterBooksByQuery, getSearchTexts, matchesSearchQuery, parseSearchQuery, type SearchContext } from './searchQuery';
+import type { BookResponse } from '../types';
+
+function createBook(path: string, overrides: Partial<BookResponse> = {}): BookResponse {
+  const lastSlash = path.lastIndexOf('/');
+  return {
+    path,
+    title: path.slice(lastSlash + 1).replace(/\.cbz$/, ''),
+    pageCount: 50,
+    fileSize: 10 * 1024 * 1024,
+    coverImageFileName: null,
+    directory: lastSlash >= 0 ? path.slice(0, lastSlash) : null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+const context: SearchContext = { isOffline: path => path === 'Batman/Year One.cbz' };
+
+const books = [
+  createBook('Batman/Year One.cbz', { pageCount: 120, isCompleted: true, currentPage: 119 }),
+  createBook('Batman/The Long Halloween.cbz', { pageCount: 380, fileSize: 200 * 1024 * 1024, currentPage: 10 }),
+  createBook('Tintin/Tintin au Tibet.cbz', { pageCount: 64 }),
+  createBook('one-shot.cbz', { pageCount: 30, fileSize: 512 * 1024 }),
+];
+
+const search = (query: string) => filterBooksByQuery(books, query, context).map(b => b.path);
+
+describe('parseSearchQuery', () => {
+  it('should return null for an empty query', () => {
+    expect(parseSearchQuery('')).toBeNull();
+    expect(parseSearchQuery('   ')).toBeNull();
+    expect(parseSearchQuery('OR')).toBeNull();
+  });
+
+  it('should combine terms with AND and OR with a lower precedence', () => {
+    expect(parseSearchQuery('a b OR c')).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'and', operands: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] },
+        { type: 'text', value: 'c' },
+      ],
+    });
+  });
+
+  it('should parse quoted phrases', () => {
+    expect(parseSearchQuery('"year one"')).toEqual({ type: 'text', value: 'year one' });
+    expect(parseSearchQuery('"OR"')).toEqual({ type: 'text', value: 'OR' });
+    expect(parseSearchQuery('"unterminated phrase')).toEqual({ type: 'text', value: 'unterminated phrase' });
+  });
+
+  it('should parse qualifiers', () => {
+    expect(parseSearchQuery('dir:"The Walking Dead"')).toEqual({ type: 'directory', value: 'The Walking Dead' });
+    expect(parseSearchQuery('series:batman')).toEqual({ type: 'directory', value: 'batman' });
+    expect(parseSearchQuery('pages:>100')).toEqual({ type: 'pages', operator: '>', value: 100 });
+    expect(parseSearchQuery('pages:42')).toEqual({ type: 'pages', operator: '=', value: 42 });
+    expect(parseSearchQuery('size:<=1.5GB')).toEqual({ type: 'size', operator: '<=', value: 1.5 * 1024 * 1024 * 1024 });
+    expect(parseSearchQuery('size:<50')).toEqual({ type: 'size', operator: '<', value: 50 * 1024 * 1024 });
+    expect(parseSearchQuery('IS:Unread')).toEqual({ type: 'status', value: 'unread' });
+  });
+
+  it('should search invalid qualifiers as text', () => {
+    expect(parseSearchQuery('pages:many')).toEqual({ type: 'text', value: 'pages:many' });
+    expect(parseSearchQuery('is:lost')).toEqual({ type: 'text', value: 'is:lost' });
+    expect(parseSearchQuery('vol:1')).toEqual({ type: 'text', value: 'vol:1' });
+  });
+
+  it('should parse negations', () => {
+    expect(parseSearchQuery('-is:completed')).toEqual({ type: 'not', operand: { type: 'status', value: 'completed' } });
+    expect(parseSearchQuery('-"long halloween"')).toEqual({ type: 'not', operand: { type: 'text', value: 'long halloween' } });
+    expect(parseSearchQuery('spider - man')).toEqual({
+      type: 'and',
+      operands: [{ type: 'text', value: 'spider' }, { type: 'text', value: '-' }, { type: 'text', value: 'man' }],
+    });
+  });
+});
+
+describe('filterBooksByQuery', () => {
+  it('should return all books for an empty query', () => {
+    expect(search('')).toHaveLength(4);
+  });
+
+  it('should match words in the title or path, ignoring accents and case', () => {
+    expect(search('tintin')).toEqual(['Tintin/Tintin au Tibet.cbz']);
+    expect(search('BATMAN')).toHaveLength(2);
+    expect(search('tibét')).toEqual(['Tintin/Tintin au Tibet.cbz']);
+  });
+
+  it('should require every term to match', () => {
+    expect(search('batman year')).toEqual(['Batman/Year One.cbz']);
+    expect(search('"batman year"')).toEqual([]);
+  });
+
+  it('should filter by directory', () => {
+    expect(search('dir:batman')).toHaveLength(2);
+    expect(search('dir:one')).toEqual([]);
+  });
+
+  it('should compare page counts and sizes', () => {
+    expect(search('pages:>100')).toEqual(['Batman/Year One.cbz', 'Batman/The Long Halloween.cbz']);
+    expect(search('pages:>=64 pages:<=120')).toEqual(['Batman/Year One.cbz', 'Tintin/Tintin au Tibet.cbz']);
+    expect(search('size:<1MB')).toEqual(['one-shot.cbz']);
+    expect(search('size:>100MB')).toEqual(['Batman/The Long Halloween.cbz']);
+  });
+
+  it('should filter by reading status', () => {
+    expect(search('is:completed')).toEqual(['Batman/Year One.cbz']);
+    expect(search('is:inprogress')).toEqual(['Batman/The Long Halloween.cbz']);
+    expect(search('is:unread')).toEqual(['Tintin/Tintin au Tibet.cbz', 'one-shot.cbz']);
+    expect(search('is:offline')).toEqual(['Batman/Year One.cbz']);
+  });
+
+  it('should support negation and OR', () => {
+    expect(search('batman -is:completed')).toEqual(['Batman/The Long Halloween.cbz']);
+    expect(search('tintin OR one-shot')).toEqual(['Tintin/Tintin au Tibet.cbz', 'one-shot.cbz']);
+    expect(search('dir:batman is:completed OR pages:<40')).toEqual(['Batman/Year One.cbz', 'one-shot.cbz']);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('should not match books without directory with dir:', () => {
+    expect(matchesSearchQuery(books[3], { type: 'directory', value: '' }, context)).toBe(false);
+  });
+
+  it('should use the text matcher of the context', () => {
+    const fuzzyContext: SearchContext = { ...context, matchesText: (_book, text) => text === 'any' };
+
+    expect(matchesSearchQuery(books[0], { type: 'text', value: 'any' }, fuzzyContext)).toBe(true);
+    expect(matchesSearchQuery(books[0], { type: 'text', value: 'batman' }, fuzzyContext)).toBe(false);
+  });
+});
+
+describe('getSearchTexts', () => {
+  it('should return the text terms that are not negated', () => {
+    expect(getSearchTexts(parseSearchQuery('batman -robin dir:dc "year one" OR joker'))).toEqual(['batman', 'year one', 'joker']);
+    expect(getSearchTexts(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { BookResponse } from '../types';
+import { containsInsensitive } from './strings';
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type BookStatus = 'unread' | 'inprogress' | 'completed' | 'offline';
+
+export type SearchNode =
+  | { type: 'text'; value: string }
+  | { type: 'directory'; value: string }
+  | { type: 'pages'; operator: ComparisonOperator; value: number }
+  | { type: 'size'; operator: ComparisonOperator; value: number }
+  | { type: 'status'; value: BookStatus }
+  | { type: 'not'; operand: SearchNode }
+  | { type: 'and'; operands: SearchNode[] }
+  | { type: 'or'; operands: SearchNode[] };
+
+export interface SearchContext {
+  /** Whether the book is fully downloaded for offline reading */
+  isOffline: (bookPath: string) => boolean;
+  /** Match free text against a book, defaults to a substring match on the title or the path */
+  matchesText?: (book: BookResponse, text: string) => boolean;
+}
+
+export const SEARCH_SYNTAX_HINTS: ReadonlyArray<{ syntax: string; description: string }> = [
+  { syntax: '"exact phrase"', description: 'Title or path contains the phrase' },
+  { syntax: 'dir:name', description: 'In a directory (also series:)' },
+  { syntax: 'pages:>100', description: 'Page count (<, <=, >, >=, =)' },
+  { syntax: 'size:<50MB', description: 'File size in B, KB, MB (default) or GB' },
+  { syntax: 'is:unread', description: 'Also is:inprogress, is:completed, is:offline' },
+  { syntax: '-word', description: 'Exclude books matching a term' },
+  { syntax: 'a OR b', description: 'Match either term' },
+];
+
+const BOOK_STATUSES: readonly BookStatus[] = ['unread', 'inprogress', 'completed', 'offline'];
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+interface Token {
+  text: string;
+  negated: boolean;
+  /** The whole token was quoted, so it is never a qualifier or an operator */
+  phrase: boolean;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    const phrase = query[i] === '"';
+    let text = '';
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        // Quoted sections may contain spaces, a missing closing quote ends at the end of the query
+        const end = query.indexOf('"', i + 1);
+        const closing = end === -1 ? query.length : end;
+        text += query.slice(i + 1, closing);
+        i = closing + 1;
+      } else {
+        text += query[i];
+        i++;
+      }
+    }
+
+    if (text.length > 0) {
+      tokens.push({ text, negated, phrase });
+    }
+  }
+
+  return tokens;
+}
+
+function parseComparison(value: string): { operator: ComparisonOperator; rest: string } {
+  const match = /^(<=|>=|<|>|=)?(.*)$/s.exec(value)!;
+  return { operator: (match[1] ?? '=') as ComparisonOperator, rest: match[2] };
+}
+
+function parseQualifier(name: string, value: string): SearchNode | null {
+  switch (name) {
+    case 'dir':
+    case 'series':
+      return { type: 'directory', value };
+
+    case 'pages': {
+      const { operator, rest } = parseComparison(value);
+      if (!/^\d+$/.test(rest)) return null;
+      return { type: 'pages', operator, value: Number(rest) };
+    }
+
+    case 'size': {
+      const { operator, rest } = parseComparison(value);
+      const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(rest);
+      if (!match) return null;
+      const unit = SIZE_UNITS[(match[2] ?? 'mb').toLowerCase()];
+      return { type: 'size', operator, value: Number(match[1]) * unit };
+    }
+
+    case 'is': {
+      const status = value.toLowerCase() as BookStatus;
+      return BOOK_STATUSES.includes(status) ? { type: 'status', value: status } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function parseTerm(token: Token): SearchNode {
+  let node: SearchNode | null = null;
+
+  if (!token.phrase) {
+    const match = /^([a-z]+):(.+)$/is.exec(token.text);
+    if (match) {
+      node = parseQualifier(match[1].toLowerCase(), match[2]);
+    }
+  }
+
+  // Unknown qualifiers and invalid values are searched as plain text
+  node ??= { type: 'text', value: token.text };
+
+  return token.negated ? { type: 'not', operand: node } : node;
+}
+
+/**
+ * Parse a catalog search query. Terms separated by spaces must all match, OR has a lower precedence:
+ * `a b OR c` matches books matching both a and b, or c. Returns null for an empty query.
+ */
+export function parseSearchQuery(query: string): SearchNode | null {
+  const groups: SearchNode[][] = [[]];
+
+  for (const token of tokenize(query)) {
+    if (token.text === 'OR' && !token.negated && !token.phrase) {
+      if (groups[groups.length - 1].length > 0) {
+        groups.push([]);
+      }
+      continue;
+    }
+
+    groups[groups.length - 1].push(parseTerm(token));
+  }
+
+  const alternatives = groups
+    .filter(group => group.length > 0)
+    .map((group): SearchNode => group.length === 1 ? group[0] : { type: 'and', operands: group });
+
+  if (alternatives.length === 0) return null;
+  return alternatives.length === 1 ? alternatives[0] : { type: 'or', operands: alternatives };
+}
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return actual === expected;
+  }
+}
+
+function matchesStatus(book: BookResponse, status: BookStatus, context: SearchContext): boolean {
+  switch (status) {
+    case 'unread': return !book.isCompleted && book.currentPage === null;
+    case 'inprogress': return !book.isCompleted && book.currentPage !== null;
+    case 'completed': return book.isCompleted;
+    case 'offline': return context.isOffline(book.path);
+  }
+}
+
+/**
+ * Check whether a book matches a parsed search query
+ */
+export function matchesSearchQuery(book: BookResponse, node: SearchNode, context: SearchContext): boolean {
+  switch (node.type) {
+    case 'text':
+      if (context.matchesText) return context.matchesText(book, node.value);
+      return containsInsensitive(book.title, node.value) || containsInsensitive(book.path, node.value);
+    case 'directory':
+      return book.directory !== null && containsInsensitive(book.directory, node.value);
+    case 'pages':
+      return compare(book.pageCount, node.operator, node.value);
+    case 'size':
+      return compare(book.fileSize, node.operator, node.value);
+    case 'status':
+      return matchesStatus(book, node.value, context);
+    case 'not':
+      return !matchesSearchQuery(book, node.operand, context);
+    case 'and':
+      return node.operands.every(operand => matchesSearchQuery(book, operand, context));
+    case 'or':
+      return node.operands.some(operand => matchesSearchQuery(book, operand, context));
+  }
+}
+
+/**
+ * Free text terms of a query that are not negated, used to rank the results
+ */
+export function getSearchTexts(node: SearchNode | null): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'text':
+      return [node.value];
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(getSearchTexts);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Filter books with a search query, all books match an empty query
+ */
+export function filterBooksByQuery(books: BookResponse[], query: string, context: SearchContext): BookResponse[] {
+  const node = parseSearchQuery(query);
+  if (!node) return books;
+
+  return books.filter(book => matchesSearchQuery(book, node, context));
+}
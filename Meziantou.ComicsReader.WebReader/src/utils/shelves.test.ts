@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getShelfBooks, isOnShelf, moveBookOnShelf, toggleBookOnShelf } from './shelves';
+import type { BookResponse, Shelf } from '../types';
+
+function createShelf(bookPaths: string[]): Shelf {
+  return { id: 'shelf', name: 'Shelf', bookPaths, createdAt: '2025-01-01T00:00:00Z' };
+}
+
+function createBook(path: string): BookResponse {
+  return {
+    path,
+    title: path,
+    pageCount: 20,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+  };
+}
+
+describe('toggleBookOnShelf', () => {
+  it('should add books at the end', () => {
+    const shelf = toggleBookOnShelf(createShelf(['a']), 'b');
+
+    expect(shelf.bookPaths).toEqual(['a', 'b']);
+    expect(isOnShelf(shelf, 'b')).toBe(true);
+  });
+
+  it('should remove books already on the shelf', () => {
+    const original = createShelf(['a', 'b']);
+    const shelf = toggleBookOnShelf(original, 'a');
+
+    expect(shelf.bookPaths).toEqual(['b']);
+    expect(original.bookPaths).toEqual(['a', 'b']);
+  });
+});
+
+describe('moveBookOnShelf', () => {
+  it('should move books forward and backward', () => {
+    const shelf = createShelf(['a', 'b', 'c', 'd']);
+
+    expect(moveBookOnShelf(shelf, 0, 2).bookPaths).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveBookOnShelf(shelf, 3, 0).bookPaths).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  it('should clamp the target position and ignore invalid moves', () => {
+    const shelf = createShelf(['a', 'b', 'c']);
+
+    expect(moveBookOnShelf(shelf, 0, 10).bookPaths).toEqual(['b', 'c', 'a']);
+    expect(moveBookOnShelf(shelf, 5, 0)).toBe(shelf);
+    expect(moveBookOnShelf(shelf, 1, 1)).toBe(shelf);
+  });
+});
+
+describe('getShelfBooks', () => {
+  it('should keep the shelf order and skip unknown books', () => {
+    const books = [createBook('a'), createBook('b'), createBook('c')];
+
+    expect(getShelfBooks(createShelf(['c', 'removed', 'a']), books).map(b => b.path)).toEqual(['c', 'a']);
+  });
+});
@@ -0,0 +1,38 @@
+import type { BookResponse, Shelf } from '../types';
+
+export function isOnShelf(shelf: Shelf, bookPath: string): boolean {
+  return shelf.bookPaths.includes(bookPath);
+}
+
+/**
+ * Add the book at the end of the shelf, or remove it when it is already there
+ */
+export function toggleBookOnShelf(shelf: Shelf, bookPath: string): Shelf {
+  const bookPaths = isOnShelf(shelf, bookPath)
+    ? shelf.bookPaths.filter(path => path !== bookPath)
+    : [...shelf.bookPaths, bookPath];
+  return { ...shelf, bookPaths };
+}
+
+/**
+ * Move a book of the shelf to another position
+ */
+export function moveBookOnShelf(shelf: Shelf, fromIndex: number, toIndex: number): Shelf {
+  const count = shelf.bookPaths.length;
+  if (fromIndex < 0 || fromIndex >= count || fromIndex === toIndex) return shelf;
+
+  const bookPaths = [...shelf.bookPaths];
+  const [moved] = bookPaths.splice(fromIndex, 1);
+  bookPaths.splice(Math.min(Math.max(toIndex, 0), count - 1), 0, moved);
+  return { ...shelf, bookPaths };
+}
+
+/**
+ * Books of the shelf in the shelf order, skipping books that are no longer in the catalog
+ */
+export function getShelfBooks(shelf: Shelf, books: BookResponse[]): BookResponse[] {
+  const booksByPath = new Map(books.map(book => [book.path, book]));
+  return shelf.bookPaths
+    .map(path => booksByPath.get(path))
+    .filter((book): book is BookResponse => book !== undefined);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { planSmartOffline } from './smartOffline';
+import type { BookResponse } from '../types';
+
+function createBook(path: string, overrides: Partial<BookResponse> = {}): BookResponse {
+  return {
+    path,
+    title: path,
+    pageCount: 30,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+const options = { pageCount: 5, bookCount: 2 };
+
+describe('planSmartOffline', () => {
+  it('should keep the next pages of the books in progress', () => {
+    const books = [
+      createBook('in-progress', { currentPage: 10 }),
+      createBook('almost-done', { currentPage: 28 }),
+      createBook('not-started'),
+    ];
+
+    const plan = planSmartOffline(books, [], new Set(), new Set(), options);
+
+    expect(plan.pages.map(p => [p.book.path, p.pageIndices])).toEqual([
+      ['in-progress', [10, 11, 12, 13, 14]],
+      ['almost-done', [28, 29]],
+    ]);
+  });
+
+  it('should keep the first books to read next', () => {
+    const nextToRead = [createBook('a'), createBook('b'), createBook('c')];
+
+    const plan = planSmartOffline(nextToRead, nextToRead, new Set(), new Set(), options);
+
+    expect(plan.books.map(b => b.path)).toEqual(['a', 'b']);
+  });
+
+  it('should evict the cached completed books except pinned ones', () => {
+    const books = [
+      createBook('completed', { isCompleted: true, currentPage: 29 }),
+      createBook('pinned', { isCompleted: true }),
+      createBook('not-cached', { isCompleted: true }),
+    ];
+
+    const plan = planSmartOffline(books, [], new Set(['completed', 'pinned']), new Set(['pinned']), options);
+
+    expect(plan.evictions).toEqual(['completed']);
+    expect(plan.pages).toEqual([]);
+  });
+});
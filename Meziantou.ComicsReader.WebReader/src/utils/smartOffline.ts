@@ -0,0 +1,55 @@
+import type { BookResponse } from '../types';
+
+export interface SmartOfflineOptions {
+  // Pages to keep ahead of the current page of each book in progress
+  pageCount: number;
+  // Next books to read to keep fully downloaded
+  bookCount: number;
+}
+
+export interface SmartOfflinePlan {
+  // Books to download entirely
+  books: BookResponse[];
+  // Pages to download for the books in progress, from the current page
+  pages: Array<{ book: BookResponse; pageIndices: number[] }>;
+  // Completed books to remove from the cache
+  evictions: string[];
+}
+
+/**
+ * Decide what to keep offline: the next pages of every book in progress and the first books to read next.
+ * Completed books are evicted from the cache, unless pinned.
+ */
+export function planSmartOffline(
+  books: BookResponse[],
+  nextToRead: BookResponse[],
+  cachedPaths: ReadonlySet<string>,
+  pinnedPaths: ReadonlySet<string>,
+  options: SmartOfflineOptions
+): SmartOfflinePlan {
+  const pages: SmartOfflinePlan['pages'] = [];
+  const evictions: string[] = [];
+
+  for (const book of books) {
+    if (book.isCompleted) {
+      if (cachedPaths.has(book.path) && !pinnedPaths.has(book.path)) {
+        evictions.push(book.path);
+      }
+      continue;
+    }
+
+    if (book.currentPage === null || options.pageCount <= 0) continue;
+
+    const start = Math.max(0, book.currentPage);
+    const end = Math.min(book.pageCount, start + options.pageCount);
+    if (start < end) {
+      pages.push({ book, pageIndices: Array.from({ length: end - start }, (_, i) => start + i) });
+    }
+  }
+
+  return {
+    books: nextToRead.filter(book => !book.isCompleted).slice(0, Math.max(0, options.bookCount)),
+    pages,
+    evictions,
+  };
+}
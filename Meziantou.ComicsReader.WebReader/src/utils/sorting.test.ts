@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { getBookProgress, isCatalogSortField, sortBooks } from './sorting';
+import type { BookResponse } from '../types';
+
+function createBook(path: string, overrides: Partial<BookResponse> = {}): BookResponse {
+  return {
+    path,
+    title: path,
+    pageCount: 20,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+const paths = (books: BookResponse[]) => books.map(b => b.path);
+
+describe('sortBooks', () => {
+  it('should sort titles in natural order', () => {
+    const books = [createBook('a', { title: 'Vol 10' }), createBook('b', { title: 'vol 2' }), createBook('c', { title: 'Vol 1' })];
+
+    expect(paths(sortBooks(books, 'title', 'asc'))).toEqual(['c', 'b', 'a']);
+    expect(paths(sortBooks(books, 'title', 'desc'))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should sort paths in natural order', () => {
+    const books = [createBook('s/t10.cbz'), createBook('s/t9.cbz')];
+
+    expect(paths(sortBooks(books, 'path', 'asc'))).toEqual(['s/t9.cbz', 's/t10.cbz']);
+  });
+
+  it('should sort numbers and break ties by path', () => {
+    const books = [
+      createBook('c', { pageCount: 10, fileSize: 300 }),
+      createBook('b', { pageCount: 30, fileSize: 100 }),
+      createBook('a', { pageCount: 10, fileSize: 200 }),
+    ];
+
+    expect(paths(sortBooks(books, 'pageCount', 'asc'))).toEqual(['a', 'c', 'b']);
+    expect(paths(sortBooks(books, 'pageCount', 'desc'))).toEqual(['b', 'a', 'c']);
+    expect(paths(sortBooks(books, 'fileSize', 'desc'))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should put books never read last in both directions', () => {
+    const books = [
+      createBook('never'),
+      createBook('old', { lastRead: '2025-01-01T10:00:00Z' }),
+      createBook('recent', { lastRead: '2025-02-01T10:00:00Z' }),
+    ];
+
+    expect(paths(sortBooks(books, 'lastRead', 'desc'))).toEqual(['recent', 'old', 'never']);
+    expect(paths(sortBooks(books, 'lastRead', 'asc'))).toEqual(['old', 'recent', 'never']);
+  });
+
+  it('should sort by progress', () => {
+    const books = [
+      createBook('half', { currentPage: 9 }),
+      createBook('done', { isCompleted: true, currentPage: 19 }),
+      createBook('new'),
+    ];
+
+    expect(paths(sortBooks(books, 'progress', 'desc'))).toEqual(['done', 'half', 'new']);
+  });
+
+  it('should sort by first seen date', () => {
+    const books = [createBook('a'), createBook('b'), createBook('unknown')];
+    const firstSeen = new Map([['a', '2025-01-01T10:00:00Z'], ['b', '2025-03-01T10:00:00Z']]);
+
+    expect(paths(sortBooks(books, 'added', 'desc', firstSeen))).toEqual(['b', 'a', 'unknown']);
+  });
+
+  it('should not modify the input', () => {
+    const books = [createBook('b'), createBook('a')];
+
+    sortBooks(books, 'path', 'asc');
+
+    expect(paths(books)).toEqual(['b', 'a']);
+  });
+});
+
+describe('getBookProgress', () => {
+  it('should return the ratio of pages read', () => {
+    expect(getBookProgress(createBook('a'))).toBe(0);
+    expect(getBookProgress(createBook('a', { currentPage: 4 }))).toBe(0.25);
+    expect(getBookProgress(createBook('a', { isCompleted: true }))).toBe(1);
+  });
+});
+
+describe('isCatalogSortField', () => {
+  it('should validate values coming from the URL', () => {
+    expect(isCatalogSortField('fileSize')).toBe(true);
+    expect(isCatalogSortField('unknown')).toBe(false);
+    expect(isCatalogSortField(null)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import type { BookResponse, CatalogSortField, SortDirection } from '../types';
+import { naturalSort } from './recommendations';
+
+export const CATALOG_SORT_FIELDS: ReadonlyArray<{ field: CatalogSortField; label: string }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'path', label: 'Path' },
+  { field: 'pageCount', label: 'Page count' },
+  { field: 'fileSize', label: 'File size' },
+  { field: 'lastRead', label: 'Last read' },
+  { field: 'progress', label: 'Progress' },
+  { field: 'added', label: 'Recently added' },
+];
+
+export function isCatalogSortField(value: string | null): value is CatalogSortField {
+  return CATALOG_SORT_FIELDS.some(option => option.field === value);
+}
+
+export function isSortDirection(value: string | null): value is SortDirection {
+  return value === 'asc' || value === 'desc';
+}
+
+/**
+ * Reading progress of a book, between 0 (not started) and 1 (completed)
+ */
+export function getBookProgress(book: BookResponse): number {
+  if (book.isCompleted) return 1;
+  if (book.currentPage === null || book.pageCount === 0) return 0;
+  return Math.min((book.currentPage + 1) / book.pageCount, 1);
+}
+
+function getDateValue(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'string' && typeof b === 'string') return naturalSort(a, b);
+  return (a as number) - (b as number);
+}
+
+/**
+ * Sort books of the catalog. Ties are broken by the natural order of the path.
+ * firstSeen maps a book path to the date the book first appeared in the catalog (used by 'added').
+ */
+export function sortBooks(
+  books: BookResponse[],
+  field: CatalogSortField,
+  direction: SortDirection,
+  firstSeen: ReadonlyMap<string, string> = new Map()
+): BookResponse[] {
+  const getValue = (book: BookResponse): number | string | null => {
+    switch (field) {
+      case 'title': return book.title;
+      case 'path': return book.path;
+      case 'pageCount': return book.pageCount;
+      case 'fileSize': return book.fileSize;
+      case 'lastRead': return getDateValue(book.lastRead);
+      case 'progress': return getBookProgress(book);
+      case 'added': return getDateValue(firstSeen.get(book.path));
+    }
+  };
+
+  const sign = direction === 'asc' ? 1 : -1;
+  const entries = books.map(book => ({ book, value: getValue(book) }));
+
+  entries.sort((a, b) => {
+    // Missing values always go last, whatever the direction
+    if (a.value === null || b.value === null) {
+      if (a.value !== b.value) return a.value === null ? 1 : -1;
+      return naturalSort(a.book.path, b.book.path);
+    }
+
+    const result = compareValues(a.value, b.value) * sign;
+    return result !== 0 ? result : naturalSort(a.book.path, b.book.path);
+  });
+
+  return entries.map(entry => entry.book);
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { computeSpreads, computeSinglePages, findSpreadIndex } from './spreads';
+
+describe('computeSpreads', () => {
+  it('should pair pages in reading order', () => {
+    const spreads = computeSpreads(4, { coverAlone: false, widePages: new Set() });
+
+    expect(spreads).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it('should show a trailing odd page alone', () => {
+    const spreads = computeSpreads(5, { coverAlone: false, widePages: new Set() });
+
+    expect(spreads).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it('should show the cover alone when requested', () => {
+    const spreads = computeSpreads(5, { coverAlone: true, widePages: new Set() });
+
+    expect(spreads).toEqual([[0], [1, 2], [3, 4]]);
+  });
+
+  it('should show wide pages alone and keep pairing after them', () => {
+    const spreads = computeSpreads(6, { coverAlone: false, widePages: new Set([2]) });
+
+    expect(spreads).toEqual([[0, 1], [2], [3, 4], [5]]);
+  });
+
+  it('should not pair a page with a following wide page', () => {
+    const spreads = computeSpreads(4, { coverAlone: true, widePages: new Set([2]) });
+
+    expect(spreads).toEqual([[0], [1], [2], [3]]);
+  });
+
+  it('should return no spreads for an empty book', () => {
+    expect(computeSpreads(0, { coverAlone: true, widePages: new Set() })).toEqual([]);
+  });
+});
+
+describe('computeSinglePages', () => {
+  it('should create one spread per page', () => {
+    expect(computeSinglePages(3)).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('findSpreadIndex', () => {
+  const spreads = [[0], [1, 2], [3, 4]];
+
+  it('should find the spread containing a page', () => {
+    expect(findSpreadIndex(spreads, 0)).toBe(0);
+    expect(findSpreadIndex(spreads, 2)).toBe(1);
+    expect(findSpreadIndex(spreads, 3)).toBe(2);
+  });
+
+  it('should return the spread count for pages past the end', () => {
+    expect(findSpreadIndex(spreads, 5)).toBe(3);
+  });
+});
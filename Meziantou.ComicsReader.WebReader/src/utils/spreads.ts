@@ -0,0 +1,51 @@
+export interface SpreadOptions {
+  /** Show the first page on its own so that odd/even pairing matches the printed book */
+  coverAlone: boolean;
+  /** Pages that are already double-width and must be displayed alone */
+  widePages: ReadonlySet<number>;
+}
+
+/**
+ * Group the pages of a book into spreads (one or two pages displayed side by side).
+ * Pages are paired in reading order; wide pages, the cover (when requested) and
+ * a trailing odd page are displayed alone.
+ */
+export function computeSpreads(pageCount: number, options: SpreadOptions): number[][] {
+  const { coverAlone, widePages } = options;
+  const spreads: number[][] = [];
+
+  let index = 0;
+  if (coverAlone && pageCount > 0) {
+    spreads.push([0]);
+    index = 1;
+  }
+
+  while (index < pageCount) {
+    const canPair = index + 1 < pageCount && !widePages.has(index) && !widePages.has(index + 1);
+    if (canPair) {
+      spreads.push([index, index + 1]);
+      index += 2;
+    } else {
+      spreads.push([index]);
+      index += 1;
+    }
+  }
+
+  return spreads;
+}
+
+/**
+ * Create one spread per page (single page layout)
+ */
+export function computeSinglePages(pageCount: number): number[][] {
+  return Array.from({ length: pageCount }, (_, index) => [index]);
+}
+
+/**
+ * Find the index of the spread containing the given page.
+ * Returns spreads.length when the page is past the end of the book.
+ */
+export function findSpreadIndex(spreads: number[][], page: number): number {
+  const index = spreads.findIndex(spread => spread.includes(page));
+  return index === -1 ? spreads.length : index;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toDateKey,
+  computeTotalPagesRead,
+  computeAverageTimePerPage,
+  computeDailyActivity,
+  countByWeek,
+  countByMonth,
+  computeStreaks,
+  buildHeatmap,
+} from './statistics';
+import type { BookResponse, PageTurnEvent } from '../types';
+
+function createBook(overrides: Partial<BookResponse>): BookResponse {
+  return {
+    path: 'book.cbz',
+    title: 'Book',
+    pageCount: 20,
+    fileSize: 1000,
+    coverImageFileName: null,
+    directory: null,
+    firstDirectory: null,
+    currentPage: null,
+    isCompleted: false,
+    lastRead: null,
+    ...overrides,
+  };
+}
+
+function createEvent(timestamp: string, durationMs: number = 10000): PageTurnEvent {
+  return { bookPath: 'book.cbz', pageIndex: 0, timestamp, durationMs };
+}
+
+// Wednesday
+const now = new Date(2025, 0, 15, 12, 0, 0);
+
+describe('computeTotalPagesRead', () => {
+  it('should count completed books fully and in progress books up to the current page', () => {
+    const books = [
+      createBook({ path: 'a', pageCount: 20, isCompleted: true, currentPage: 19 }),
+      createBook({ path: 'b', pageCount: 30, currentPage: 9 }),
+      createBook({ path: 'c', pageCount: 40 }),
+    ];
+
+    expect(computeTotalPagesRead(books)).toBe(30);
+  });
+});
+
+describe('computeAverageTimePerPage', () => {
+  it('should return null without events', () => {
+    expect(computeAverageTimePerPage([])).toBeNull();
+  });
+
+  it('should average the durations', () => {
+    const events = [createEvent('2025-01-15T10:00:00', 10000), createEvent('2025-01-15T10:01:00', 20000)];
+
+    expect(computeAverageTimePerPage(events)).toBe(15000);
+  });
+});
+
+describe('computeDailyActivity', () => {
+  it('should count pages per local day', () => {
+    const events = [
+      createEvent(new Date(2025, 0, 14, 23, 0).toISOString()),
+      createEvent(new Date(2025, 0, 15, 8, 0).toISOString()),
+      createEvent(new Date(2025, 0, 15, 9, 0).toISOString()),
+    ];
+
+    const activity = computeDailyActivity(events);
+
+    expect(activity.get('2025-01-14')).toBe(1);
+    expect(activity.get('2025-01-15')).toBe(2);
+  });
+});
+
+describe('countByWeek', () => {
+  it('should count dates per week starting on Monday', () => {
+    const dates = [
+      new Date(2025, 0, 13, 10).toISOString(), // Monday of the current week
+      new Date(2025, 0, 12, 10).toISOString(), // Sunday of the previous week
+      new Date(2025, 0, 6, 10).toISOString(), // Monday of the previous week
+      new Date(2024, 11, 1, 10).toISOString(), // Out of range
+    ];
+
+    const weeks = countByWeek(dates, 3, now);
+
+    expect(weeks).toEqual([
+      { start: '2024-12-30', count: 0 },
+      { start: '2025-01-06', count: 2 },
+      { start: '2025-01-13', count: 1 },
+    ]);
+  });
+});
+
+describe('countByMonth', () => {
+  it('should count dates per month across years', () => {
+    const dates = [
+      new Date(2025, 0, 2, 10).toISOString(),
+      new Date(2024, 11, 31, 10).toISOString(),
+      new Date(2024, 11, 1, 10).toISOString(),
+    ];
+
+    const months = countByMonth(dates, 3, now);
+
+    expect(months).toEqual([
+      { month: '2024-11', count: 0 },
+      { month: '2024-12', count: 2 },
+      { month: '2025-01', count: 1 },
+    ]);
+  });
+});
+
+describe('computeStreaks', () => {
+  it('should return zero without activity', () => {
+    expect(computeStreaks(new Set(), now)).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('should count the current streak up to today', () => {
+    const days = new Set(['2025-01-13', '2025-01-14', '2025-01-15']);
+
+    expect(computeStreaks(days, now)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('should keep the current streak alive until the end of the day', () => {
+    const days = new Set(['2025-01-13', '2025-01-14']);
+
+    expect(computeStreaks(days, now).current).toBe(2);
+  });
+
+  it('should break the current streak after a missed day', () => {
+    const days = new Set(['2025-01-01', '2025-01-02', '2025-01-03', '2025-01-04', '2025-01-13']);
+
+    expect(computeStreaks(days, now)).toEqual({ current: 0, longest: 4 });
+  });
+
+  it('should count streaks across month boundaries', () => {
+    const days = new Set(['2024-12-30', '2024-12-31', '2025-01-01']);
+
+    expect(computeStreaks(days, now).longest).toBe(3);
+  });
+});
+
+describe('buildHeatmap', () => {
+  it('should build one column per week with days after today empty', () => {
+    const activity = new Map([['2025-01-15', 12], ['2025-01-06', 3]]);
+
+    const heatmap = buildHeatmap(activity, 2, now);
+
+    expect(heatmap).toHaveLength(2);
+    expect(heatmap[0][0]).toEqual({ date: '2025-01-06', count: 3 });
+    expect(heatmap[1][2]).toEqual({ date: '2025-01-15', count: 12 });
+    expect(heatmap[1][3]).toBeNull();
+  });
+
+  it('should use local dates', () => {
+    const heatmap = buildHeatmap(new Map(), 1, now);
+
+    expect(heatmap[0].map(cell => cell?.date ?? null)).toEqual([
+      toDateKey(new Date(2025, 0, 13)),
+      '2025-01-14',
+      '2025-01-15',
+      null,
+      null,
+      null,
+      null,
+    ]);
+  });
+});
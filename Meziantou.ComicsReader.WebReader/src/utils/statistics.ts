@@ -0,0 +1,155 @@
+import type { BookResponse, PageTurnEvent } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as "YYYY-MM-DD" in the local time zone
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/**
+ * Pages read across the library, from the saved progress of each book
+ */
+export function computeTotalPagesRead(books: BookResponse[]): number {
+  let total = 0;
+  for (const book of books) {
+    if (book.isCompleted) {
+      total += book.pageCount;
+    } else if (book.currentPage !== null) {
+      total += Math.min(book.currentPage + 1, book.pageCount);
+    }
+  }
+  return total;
+}
+
+/**
+ * Average time spent on a page, or null when nothing has been recorded yet
+ */
+export function computeAverageTimePerPage(events: PageTurnEvent[]): number | null {
+  if (events.length === 0) return null;
+
+  const total = events.reduce((sum, event) => sum + event.durationMs, 0);
+  return total / events.length;
+}
+
+/**
+ * Number of pages read per day, keyed by "YYYY-MM-DD"
+ */
+export function computeDailyActivity(events: PageTurnEvent[]): Map<string, number> {
+  const activity = new Map<string, number>();
+  for (const event of events) {
+    const key = toDateKey(new Date(event.timestamp));
+    activity.set(key, (activity.get(key) ?? 0) + 1);
+  }
+  return activity;
+}
+
+/**
+ * Count dates per week for the last weeks (oldest first). Weeks are identified by their Monday.
+ */
+export function countByWeek(dates: string[], weeks: number, now: Date): Array<{ start: string; count: number }> {
+  const currentWeek = startOfWeek(now);
+  const buckets = Array.from({ length: weeks }, (_, i) => ({
+    start: toDateKey(addDays(currentWeek, (i - weeks + 1) * 7)),
+    count: 0,
+  }));
+  const indexByStart = new Map(buckets.map((bucket, i) => [bucket.start, i]));
+
+  for (const date of dates) {
+    const index = indexByStart.get(toDateKey(startOfWeek(new Date(date))));
+    if (index !== undefined) {
+      buckets[index].count++;
+    }
+  }
+
+  return buckets;
+}
+
+/**
+ * Count dates per month for the last months (oldest first). Months are formatted as "YYYY-MM".
+ */
+export function countByMonth(dates: string[], months: number, now: Date): Array<{ month: string; count: number }> {
+  const buckets = Array.from({ length: months }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - months + 1 + i, 1);
+    return { month: toDateKey(date).slice(0, 7), count: 0 };
+  });
+  const indexByMonth = new Map(buckets.map((bucket, i) => [bucket.month, i]));
+
+  for (const date of dates) {
+    const index = indexByMonth.get(toDateKey(new Date(date)).slice(0, 7));
+    if (index !== undefined) {
+      buckets[index].count++;
+    }
+  }
+
+  return buckets;
+}
+
+/**
+ * Compute reading streaks (consecutive days with reading activity).
+ * The current streak is still alive when the last reading day is yesterday.
+ */
+export function computeStreaks(days: ReadonlySet<string>, now: Date): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+
+  const sortedDays = [...days].sort();
+  for (const key of sortedDays) {
+    const [year, month, day] = key.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    run = previous !== null && Math.round((date.getTime() - previous.getTime()) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  const today = startOfDay(now);
+  let current = 0;
+  let cursor = days.has(toDateKey(today)) ? today : addDays(today, -1);
+  while (days.has(toDateKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest };
+}
+
+export interface HeatmapCell {
+  date: string;
+  count: number;
+}
+
+/**
+ * Build a calendar heatmap: one column per week (oldest first), one row per weekday starting on Monday.
+ * Days after today are null.
+ */
+export function buildHeatmap(activity: ReadonlyMap<string, number>, weeks: number, now: Date): Array<Array<HeatmapCell | null>> {
+  const today = startOfDay(now);
+  const firstDay = addDays(startOfWeek(today), -(weeks - 1) * 7);
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = addDays(firstDay, week * 7 + weekday);
+      if (date > today) return null;
+
+      const key = toDateKey(date);
+      return { date: key, count: activity.get(key) ?? 0 };
+    })
+  );
+}
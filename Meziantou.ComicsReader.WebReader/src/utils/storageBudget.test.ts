@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getStorageBudgetBytes, getTotalCacheSize, selectBooksToEvict } from './storageBudget';
+import type { BookCacheUsage } from '../types';
+
+function usage(path: string, sizeBytes: number, lastAccessedAt: string, pinned?: boolean): BookCacheUsage {
+  return { path, sizeBytes, lastAccessedAt, pinned };
+}
+
+describe('getStorageBudgetBytes', () => {
+  it('should convert megabytes to bytes', () => {
+    expect(getStorageBudgetBytes(2)).toBe(2 * 1024 * 1024);
+  });
+
+  it('should return null without limit', () => {
+    expect(getStorageBudgetBytes(0)).toBeNull();
+  });
+});
+
+describe('getTotalCacheSize', () => {
+  it('should sum the size of the books', () => {
+    expect(getTotalCacheSize([usage('a', 10, ''), usage('b', 20, '')])).toBe(30);
+  });
+});
+
+describe('selectBooksToEvict', () => {
+  const books = [
+    usage('recent', 100, '2025-01-03T10:00:00Z'),
+    usage('oldest', 100, '2025-01-01T10:00:00Z'),
+    usage('old', 100, '2025-01-02T10:00:00Z'),
+  ];
+
+  it('should not evict anything within the budget', () => {
+    expect(selectBooksToEvict(books, 300, new Set())).toEqual([]);
+  });
+
+  it('should evict the least recently used books until the cache fits', () => {
+    expect(selectBooksToEvict(books, 150, new Set())).toEqual(['oldest', 'old']);
+  });
+
+  it('should never evict pinned or protected books', () => {
+    const withPinned = [...books, usage('pinned', 100, '2024-12-01T10:00:00Z', true)];
+
+    expect(selectBooksToEvict(withPinned, 0, new Set(['old']))).toEqual(['oldest', 'recent']);
+  });
+});
@@ -0,0 +1,40 @@
+import type { BookCacheUsage } from '../types';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Convert the budget from the settings to bytes. Returns null when there is no limit.
+ */
+export function getStorageBudgetBytes(budgetMB: number): number | null {
+  return budgetMB > 0 ? budgetMB * BYTES_PER_MB : null;
+}
+
+export function getTotalCacheSize(usage: BookCacheUsage[]): number {
+  return usage.reduce((total, book) => total + book.sizeBytes, 0);
+}
+
+/**
+ * Choose the books to evict so that the cache fits in the budget, least recently used first.
+ * Pinned and protected books are never evicted, even when the budget cannot be met without them.
+ */
+export function selectBooksToEvict(
+  usage: BookCacheUsage[],
+  budgetBytes: number,
+  protectedPaths: ReadonlySet<string>
+): string[] {
+  let total = getTotalCacheSize(usage);
+  if (total <= budgetBytes) return [];
+
+  const candidates = usage
+    .filter(book => !book.pinned && !protectedPaths.has(book.path) && book.sizeBytes > 0)
+    .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+
+  const result: string[] = [];
+  for (const book of candidates) {
+    if (total <= budgetBytes) break;
+
+    result.push(book.path);
+    total -= book.sizeBytes;
+  }
+  return result;
+}
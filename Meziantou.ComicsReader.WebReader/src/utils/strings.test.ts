@@ -3,6 +3,7 @@ import {
   normalizeString,
   containsInsensitive,
   formatFileSize,
+  formatDuration,
   formatRelativeTime,
   clamp,
 } from '../utils/strings';
@@ -67,6 +68,22 @@ describe('String Utilities', () => {
     });
   });
 
+  describe('formatDuration', () => {
+    it('should format seconds', () => {
+      expect(formatDuration(0)).toBe('0s');
+      expect(formatDuration(12400)).toBe('12s');
+    });
+
+    it('should format minutes', () => {
+      expect(formatDuration(60000)).toBe('1m');
+      expect(formatDuration(95000)).toBe('1m 35s');
+    });
+
+    it('should format hours', () => {
+      expect(formatDuration(3 * 3600000 + 25 * 60000)).toBe('3h 25m');
+    });
+  });
+
   describe('formatRelativeTime', () => {
     it('should format recent times', () => {
       const now = new Date();
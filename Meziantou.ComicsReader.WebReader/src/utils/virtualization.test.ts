@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { computeGridColumns, computeVirtualGridRange } from './virtualization';
+
+const baseOptions = {
+  itemCount: 100,
+  itemWidth: 100,
+  itemHeight: 200,
+  gap: 10,
+  containerWidth: 540,
+  viewportTop: 0,
+  viewportHeight: 500,
+  overscanRows: 1,
+};
+
+describe('computeGridColumns', () => {
+  it('should count the gaps between columns only', () => {
+    expect(computeGridColumns(540, 100, 10)).toBe(5);
+    expect(computeGridColumns(539, 100, 10)).toBe(4);
+  });
+
+  it('should return at least one column', () => {
+    expect(computeGridColumns(50, 100, 10)).toBe(1);
+    expect(computeGridColumns(0, 100, 10)).toBe(1);
+  });
+});
+
+describe('computeVirtualGridRange', () => {
+  it('should render the visible rows and the overscan below at the top', () => {
+    const range = computeVirtualGridRange(baseOptions);
+
+    // Rows 0 to 2 are visible, row 3 is overscan
+    expect(range).toEqual({
+      columns: 5,
+      startIndex: 0,
+      endIndex: 20,
+      offsetTop: 0,
+      totalHeight: 20 * 210 - 10,
+    });
+  });
+
+  it('should skip rows above the viewport', () => {
+    const range = computeVirtualGridRange({ ...baseOptions, viewportTop: 1050 });
+
+    // Rows 5 to 7 are visible
+    expect(range.startIndex).toBe(20);
+    expect(range.endIndex).toBe(45);
+    expect(range.offsetTop).toBe(840);
+  });
+
+  it('should render the first rows when the grid starts in the viewport', () => {
+    const range = computeVirtualGridRange({ ...baseOptions, viewportTop: -300 });
+
+    expect(range.startIndex).toBe(0);
+    expect(range.endIndex).toBe(10);
+  });
+
+  it('should clamp the range at the end of the grid', () => {
+    const range = computeVirtualGridRange({ ...baseOptions, itemCount: 23, viewportTop: 800 });
+
+    expect(range.endIndex).toBe(23);
+  });
+
+  it('should render nothing when the grid is far below the viewport', () => {
+    const range = computeVirtualGridRange({ ...baseOptions, viewportTop: -2000 });
+
+    expect(range.startIndex).toBe(0);
+    expect(range.endIndex).toBe(0);
+  });
+
+  it('should handle empty grids', () => {
+    const range = computeVirtualGridRange({ ...baseOptions, itemCount: 0 });
+
+    expect(range).toMatchObject({ startIndex: 0, endIndex: 0, totalHeight: 0 });
+  });
+});
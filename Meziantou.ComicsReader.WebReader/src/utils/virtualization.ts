@@ -0,0 +1,57 @@
+export interface VirtualGridRange {
+  columns: number;
+  /** Index of the first item to render */
+  startIndex: number;
+  /** Index after the last item to render */
+  endIndex: number;
+  /** Offset of the first rendered row from the top of the grid */
+  offsetTop: number;
+  /** Height of the whole grid, rendered or not */
+  totalHeight: number;
+}
+
+export interface VirtualGridOptions {
+  itemCount: number;
+  itemWidth: number;
+  itemHeight: number;
+  gap: number;
+  containerWidth: number;
+  /** Top of the viewport relative to the top of the grid (negative when the grid starts below the viewport) */
+  viewportTop: number;
+  viewportHeight: number;
+  /** Number of rows rendered above and below the viewport */
+  overscanRows: number;
+}
+
+/**
+ * Number of columns that fit in the container (at least one)
+ */
+export function computeGridColumns(containerWidth: number, itemWidth: number, gap: number): number {
+  return Math.max(1, Math.floor((containerWidth + gap) / (itemWidth + gap)));
+}
+
+/**
+ * Compute the items of a fixed-size grid that intersect the viewport, plus overscan rows
+ */
+export function computeVirtualGridRange(options: VirtualGridOptions): VirtualGridRange {
+  const { itemCount, itemHeight, gap, viewportTop, viewportHeight, overscanRows } = options;
+
+  const columns = computeGridColumns(options.containerWidth, options.itemWidth, gap);
+  const rowCount = Math.ceil(itemCount / columns);
+  const rowPitch = itemHeight + gap;
+  const totalHeight = rowCount > 0 ? rowCount * rowPitch - gap : 0;
+
+  const firstVisibleRow = Math.floor(viewportTop / rowPitch);
+  const lastVisibleRow = Math.floor((viewportTop + viewportHeight) / rowPitch);
+
+  const startRow = Math.min(rowCount, Math.max(0, firstVisibleRow - overscanRows));
+  const endRow = Math.min(rowCount, Math.max(startRow, lastVisibleRow + overscanRows + 1));
+
+  return {
+    columns,
+    startIndex: startRow * columns,
+    endIndex: Math.min(itemCount, endRow * columns),
+    offsetTop: startRow * rowPitch,
+    totalHeight,
+  };
+}